@@ -29,4 +29,4 @@ module.exports = {
       },
     },
   },
-};w
\ No newline at end of file
+};
@@ -0,0 +1,139 @@
+import { HttpError, isHttpError, createStatusError } from '../core/http-error';
+
+/**
+ * Subset of an axios error used by `fromAxiosError`, matched structurally so
+ * that axios is never required
+ */
+interface AxiosLikeError {
+  isAxiosError: true;
+  message: string;
+  code?: string;
+  response?: {
+    status: number;
+    statusText?: string;
+    data?: unknown;
+    headers?: Record<string, unknown>;
+  };
+}
+
+function isAxiosLikeError(value: unknown): value is AxiosLikeError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Partial<AxiosLikeError>).isAxiosError === true
+  );
+}
+
+/**
+ * Converts a parsed error response body into an HttpError with the response status
+ *
+ * Obsidian JSON and Problem Details bodies are rehydrated with `HttpError.fromJSON`.
+ * Other JSON bodies are kept in `details`, and non-empty text becomes the message.
+ */
+function fromResponseBody(status: number, body: unknown, options?: { cause?: unknown }): HttpError {
+  const defaultMessage = HttpError.getDefaultMessage(status);
+
+  if (typeof body === 'string') {
+    return createStatusError(status, body.trim() || defaultMessage, options);
+  }
+
+  if (typeof body === 'object' && body !== null) {
+    try {
+      const parsed = HttpError.fromJSON({ ...body, status });
+      return createStatusError(status, parsed.message, {
+        code: parsed.code,
+        details: parsed.details,
+        type: parsed.type,
+        instance: parsed.instance,
+        ...options,
+      });
+    } catch {
+      return createStatusError(status, defaultMessage, { details: body, ...options });
+    }
+  }
+
+  return createStatusError(status, defaultMessage, options);
+}
+
+/**
+ * Reads a Fetch API response body as JSON when its content type is JSON,
+ * as text when it is plain text, and ignores other bodies (e.g. HTML error pages)
+ */
+async function readBody(response: Response): Promise<unknown> {
+  const contentType = response.headers.get('content-type') ?? '';
+  const text = await response.text();
+
+  if (/[/+]json\b/i.test(contentType)) {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return text;
+    }
+  }
+
+  return /^text\/plain\b/i.test(contentType) ? text : undefined;
+}
+
+/**
+ * Throws an HttpError if a Fetch API response is not ok (status outside 200-299)
+ *
+ * The error body (obsidian JSON, `application/problem+json` or text) is parsed
+ * into the error's message, code and details.
+ *
+ * @param response - Response returned by `fetch`
+ * @returns The same response when it is ok
+ * @throws {HttpError} With the response status when it is not ok
+ *
+ * @example
+ * ```ts
+ * import { throwIfNotOk } from '@periodic/obsidian';
+ *
+ * const response = await throwIfNotOk(await fetch(`${USERS_API}/users/${id}`));
+ * const user = await response.json();
+ * ```
+ */
+export async function throwIfNotOk(response: Response): Promise<Response> {
+  if (response.ok) {
+    return response;
+  }
+
+  throw fromResponseBody(response.status, await readBody(response));
+}
+
+/**
+ * Converts an axios error into an HttpError
+ *
+ * Errors with a response keep its status and parsed body. Requests that got no
+ * response become 504 (timeouts) or 502 (other network failures). The original
+ * error is kept as `cause`; values that are not axios errors are wrapped as 500.
+ *
+ * @param err - Value caught from an axios call
+ * @returns HttpError describing the failure
+ *
+ * @example
+ * ```ts
+ * import { fromAxiosError } from '@periodic/obsidian';
+ *
+ * try {
+ *   await axios.get(`${USERS_API}/users/${id}`);
+ * } catch (err) {
+ *   throw fromAxiosError(err);
+ * }
+ * ```
+ */
+export function fromAxiosError(err: unknown): HttpError {
+  if (isHttpError(err)) {
+    return err;
+  }
+
+  if (!isAxiosLikeError(err)) {
+    return HttpError.wrap(err);
+  }
+
+  if (err.response) {
+    return fromResponseBody(err.response.status, err.response.data, { cause: err });
+  }
+
+  const timedOut = err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT';
+  return HttpError.wrap(err, timedOut ? 504 : 502, undefined, { code: err.code });
+}
@@ -1,30 +1,83 @@
-import type { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
-import { HttpError } from '../core/http-error';
+import type {
+  Request,
+  Response,
+  NextFunction,
+  ErrorRequestHandler,
+  RequestHandler,
+  IRouter,
+} from 'express';
+import { isHttpError } from '../core/http-error';
+import { buildErrorResponse } from '../core/error-response';
+import type { ErrorHandlerOptions } from '../core/error-response';
+import { isDevelopment } from '../core/env';
+import { PROMETHEUS_CONTENT_TYPE } from '../core/metrics';
+import type { ErrorMetrics } from '../core/metrics';
+import { negotiateLocale } from '../core/i18n';
+import { resolveRequestId, generateId } from '../core/id';
+import { toKnownHttpError } from '../core/normalize';
+import { selectFormatter, JSON_CONTENT_TYPE } from '../core/formatters';
+import { PROBLEM_JSON_CONTENT_TYPE } from '../core/problem-details';
+import {
+  createErrorLogRecord,
+  createErrorLogger,
+  markRequestStart,
+  getRequestDuration,
+} from '../core/logging';
+import type { StructuredLogger, ErrorLogRateLimit } from '../core/logging';
+import { runSchema, createValidationError } from '../core/validation';
+import type { StandardSchemaV1, ValidateOptions, ValidationIssue } from '../core/validation';
+import type { ErrorResponseFormat } from '../core/types';
 
 /**
  * Options for Express error handler middleware
  */
-export interface ExpressErrorHandlerOptions {
+export interface ExpressErrorHandlerOptions extends Omit<ErrorHandlerOptions<Request>, 'logger'> {
   /**
-   * Include stack trace in development mode
-   * @default process.env.NODE_ENV !== 'production'
+   * Custom logger function, or a structured logger (pino, bunyan) whose `warn` (4xx) or
+   * `error` (5xx) method is called with the record fields and the error message
    */
-  includeStack?: boolean;
+  logger?: ((error: Error, req: Request) => void) | StructuredLogger;
 
   /**
-   * Custom logger function
+   * Limits how often identical errors are sent to a structured logger
    */
-  logger?: (error: Error, req: Request) => void;
+  logRateLimit?: ErrorLogRateLimit;
 
   /**
-   * Custom error transformer
+   * Response body format. `problem` sends RFC 9457 Problem Details
+   * with `Content-Type: application/problem+json`, also to clients accepting
+   * `application/json`
+   * @default 'json'
    */
-  transform?: (error: HttpError) => Record<string, unknown>;
+  format?: ErrorResponseFormat;
+
+  /**
+   * Media type sent when the `Accept` header is missing, `*\/*` or matches no
+   * registered formatter
+   * @default the media type of `format`
+   */
+  fallback?: string;
+
+  /**
+   * Resolves the request correlation ID, sent as `X-Request-Id` and `requestId`.
+   * Set to `false` to disable.
+   * @default `X-Request-Id`, the `traceparent` trace ID, or a generated UUID
+   */
+  requestId?: false | ((req: Request) => string);
+
+  /**
+   * Picks the locale of the response among the registered locales
+   * @default negotiated from the `Accept-Language` header
+   */
+  locale?: (req: Request) => string | undefined;
 }
 
 /**
  * Express middleware for handling HttpError instances
  *
+ * The body format is negotiated from the `Accept` header among the registered
+ * formatters (JSON, Problem Details, plain text, XML, see `registerFormatter`).
+ *
  * @param options - Configuration options
  * @returns Express error handler middleware
  *
@@ -44,41 +97,115 @@ export interface ExpressErrorHandlerOptions {
  * ```
  */
 export function errorHandler(options: ExpressErrorHandlerOptions = {}): ErrorRequestHandler {
-  const { includeStack = process.env.NODE_ENV !== 'production', logger, transform } = options;
+  const {
+    includeStack = isDevelopment(),
+    logger,
+    logRateLimit,
+    metrics,
+    transform,
+    format = 'json',
+    fallback = format === 'problem' ? PROBLEM_JSON_CONTENT_TYPE : JSON_CONTENT_TYPE,
+    locale = (req: Request) => negotiateLocale(req.headers?.['accept-language']),
+    requestId = (req: Request) =>
+      resolveRequestId(
+        headerValue(req.headers?.['x-request-id']),
+        headerValue(req.headers?.traceparent)
+      ),
+  } = options;
+  const logRecord =
+    logger && typeof logger !== 'function' ? createErrorLogger(logger, logRateLimit) : undefined;
 
   return (err: Error, req: Request, res: Response, _next: NextFunction): void => {
+    const id = requestId ? requestId(req) : undefined;
+
+    // Normalize once, so the logged, counted and sent errors share one `id`
+    const httpError = toKnownHttpError(err);
+    const handled = httpError ?? err;
+    const errorId = httpError?.id ?? generateId();
+
     // Log error if logger provided
-    if (logger) {
+    if (logRecord) {
+      logRecord(
+        createErrorLogRecord(handled, {
+          id: errorId,
+          requestId: id,
+          method: req.method,
+          url: req.originalUrl ?? req.url,
+          durationMs: getRequestDuration(req),
+        })
+      );
+    } else if (typeof logger === 'function') {
       logger(err, req);
     }
 
-    // Handle HttpError instances
-    if (err instanceof HttpError) {
-      const response = transform ? transform(err) : err.toJSON();
-      res.status(err.status).json(response);
-      return;
-    }
+    metrics?.record(handled, getRoute(req));
 
-    // Handle unknown errors
-    if (!includeStack) {
-      res.status(500).json({
-        status: 500,
-        message: 'Internal Server Error',
-      });
+    const negotiated = selectFormatter(req.headers?.accept, fallback);
+    // Clients accepting `application/json` (e.g. axios) still get the configured Problem Details
+    const formatter =
+      format === 'problem' && negotiated.mediaType === JSON_CONTENT_TYPE
+        ? selectFormatter(PROBLEM_JSON_CONTENT_TYPE)
+        : negotiated;
+    const { status, headers, body } = buildErrorResponse(handled, {
+      id: errorId,
+      includeStack,
+      transform,
+      format: formatter.format,
+      locale: locale(req),
+      requestId: id,
+    });
+    if (formatter.serialize) {
+      res
+        .status(status)
+        .set({ ...headers, 'Content-Type': formatter.mediaType })
+        .send(formatter.serialize(body));
       return;
     }
 
-    // Development mode: include error details
-    res.status(500).json({
-      status: 500,
-      message: err.message,
-      stack: err.stack,
-    });
+    res.status(status).set(headers).json(body);
+  };
+}
+
+/**
+ * Returns the route pattern that matched a request (e.g. `/api/users/:id`),
+ * undefined when no route matched
+ */
+function getRoute(req: Request): string | undefined {
+  const { route } = req as { route?: { path?: unknown } };
+  return typeof route?.path === 'string' ? `${req.baseUrl ?? ''}${route.path}` : undefined;
+}
+
+/**
+ * Returns the first value of a possibly repeated header
+ */
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Express middleware recording when a request started, so `errorHandler` can log
+ * its `durationMs`. Register it before your routes.
+ *
+ * @returns Express middleware
+ *
+ * @example
+ * ```ts
+ * app.use(requestTimer());
+ * // ... routes
+ * app.use(errorHandler({ logger: pino() }));
+ * ```
+ */
+export function requestTimer(): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    markRequestStart(req);
+    next();
   };
 }
 
 /**
  * Simple Express error handler that only handles HttpError instances
+ * (sending their JSON and headers; in production, errors that are not exposed
+ * are sent with their default message and without `details`)
  * Passes other errors to the next error handler
  *
  * @example
@@ -98,10 +225,244 @@ export function errorHandler(options: ExpressErrorHandlerOptions = {}): ErrorReq
  */
 export function simpleErrorHandler(): ErrorRequestHandler {
   return (err: Error, _req: Request, res: Response, next: NextFunction): void => {
-    if (err instanceof HttpError) {
-      res.status(err.status).json(err.toJSON());
+    if (isHttpError(err)) {
+      const { status, headers, body } = buildErrorResponse(err, { includeStack: isDevelopment() });
+      res.status(status).set(headers).json(body);
       return;
     }
     next(err);
   };
 }
+
+/**
+ * Standard Schema validators for the parts of an Express request
+ */
+export interface RequestSchemas {
+  body?: StandardSchemaV1;
+  query?: StandardSchemaV1;
+  params?: StandardSchemaV1;
+}
+
+const REQUEST_PARTS = ['params', 'query', 'body'] as const;
+
+/**
+ * Express middleware validating `req.body`, `req.query` and `req.params` with
+ * Standard Schema validators (Zod, Valibot, ArkType, ...)
+ *
+ * Validated values replace the originals on `req`. When validation fails, a single
+ * 422 (or 400) error with all `details.issues` is passed to `next`; issue paths
+ * start with the request part (e.g. `['body', 'email']`).
+ *
+ * @param schemas - Validators per request part
+ * @param options - Status, message and code of the error
+ * @returns Express middleware
+ *
+ * @example
+ * ```ts
+ * import { z } from 'zod';
+ * import { validateRequest } from '@periodic/obsidian';
+ *
+ * app.post(
+ *   '/users/:id',
+ *   validateRequest({ params: z.object({ id: z.string().uuid() }), body: userSchema }),
+ *   (req, res) => { ... }
+ * );
+ * ```
+ */
+export function validateRequest(
+  schemas: RequestSchemas,
+  options?: ValidateOptions
+): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const validate = async (): Promise<void> => {
+      const issues: ValidationIssue[] = [];
+      const values: Partial<Record<keyof RequestSchemas, unknown>> = {};
+
+      for (const part of REQUEST_PARTS) {
+        const schema = schemas[part];
+        if (!schema) continue;
+
+        const outcome = await runSchema(schema, req[part], [part]);
+        if (outcome.issues) {
+          issues.push(...outcome.issues);
+        } else {
+          values[part] = outcome.value;
+        }
+      }
+
+      if (issues.length > 0) {
+        throw createValidationError(issues, options);
+      }
+
+      // Express 5 defines `req.query` as a getter without setter, so assignment would throw
+      for (const [part, value] of Object.entries(values)) {
+        Object.defineProperty(req, part, {
+          value,
+          writable: true,
+          configurable: true,
+          enumerable: true,
+        });
+      }
+    };
+
+    validate().then(() => next(), next);
+  };
+}
+
+/**
+ * Express route handler serving error metrics in Prometheus text format
+ *
+ * @param metrics - Error counter, also passed to `errorHandler`
+ * @returns Express route handler
+ *
+ * @example
+ * ```ts
+ * const metrics = createErrorMetrics();
+ *
+ * app.get('/metrics', metricsHandler(metrics));
+ * // ... routes
+ * app.use(errorHandler({ metrics }));
+ * ```
+ */
+export function metricsHandler(metrics: ErrorMetrics): RequestHandler {
+  return (_req: Request, res: Response): void => {
+    res.set({ 'Content-Type': PROMETHEUS_CONTENT_TYPE }).send(metrics.collect());
+  };
+}
+
+/**
+ * Router methods patched by `wrapRouter`
+ */
+const ROUTER_METHODS = ['all', 'get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'use'];
+
+/**
+ * Passes the rejection of a handler's promise to `next`
+ */
+function forwardRejection(result: unknown, next: NextFunction): void {
+  if (result instanceof Promise) {
+    // Like Express 5, a promise rejected without a reason still becomes an error
+    result.catch((err: unknown) => next(err ?? new Error('Rejected promise')));
+  }
+}
+
+/**
+ * Wraps an async route handler or middleware so thrown errors and rejected
+ * promises reach the error middleware
+ *
+ * Express 4 ignores the promise returned by a handler: an `async` route that
+ * throws never calls `next` and the request hangs. Error middleware (4
+ * parameters) keeps its arity. Express 5 forwards rejections by itself.
+ *
+ * @param handler - Handler or error middleware, sync or async
+ * @returns Handler passing errors to `next`
+ *
+ * @example
+ * ```ts
+ * import { obsidian, asyncHandler } from '@periodic/obsidian';
+ *
+ * app.get(
+ *   '/users/:id',
+ *   asyncHandler(async (req, res) => {
+ *     const user = await db.users.find(req.params.id);
+ *     if (!user) throw obsidian.notFound('User not found');
+ *     res.json(user);
+ *   })
+ * );
+ * ```
+ */
+export function asyncHandler<Req extends Request = Request, Res extends Response = Response>(
+  handler: (req: Req, res: Res, next: NextFunction) => unknown
+): (req: Req, res: Res, next: NextFunction) => void;
+export function asyncHandler<Req extends Request = Request, Res extends Response = Response>(
+  handler: (err: unknown, req: Req, res: Res, next: NextFunction) => unknown
+): (err: unknown, req: Req, res: Res, next: NextFunction) => void;
+export function asyncHandler(fn: (...args: never[]) => unknown): (...args: never[]) => void {
+  const handler = fn as (...args: unknown[]) => unknown;
+
+  if (handler.length === 4) {
+    return (err: unknown, req: unknown, res: unknown, next: unknown): void => {
+      try {
+        forwardRejection(handler(err, req, res, next), next as NextFunction);
+      } catch (caught) {
+        (next as NextFunction)(caught);
+      }
+    };
+  }
+
+  return (req: unknown, res: unknown, next: unknown): void => {
+    try {
+      forwardRejection(handler(req, res, next), next as NextFunction);
+    } catch (caught) {
+      (next as NextFunction)(caught);
+    }
+  };
+}
+
+/**
+ * Wraps handler arguments, leaving mounted routers and apps (which have a
+ * `handle` method) untouched
+ */
+function wrapArgument(arg: unknown): unknown {
+  if (Array.isArray(arg)) {
+    return arg.map(wrapArgument);
+  }
+
+  if (typeof arg === 'function' && !('handle' in arg)) {
+    return asyncHandler(arg as (...args: unknown[]) => unknown);
+  }
+
+  return arg;
+}
+
+function patchMethods(target: object): void {
+  const methods = target as Record<string, unknown>;
+
+  for (const method of ROUTER_METHODS) {
+    const original = methods[method];
+    if (typeof original !== 'function') continue;
+
+    methods[method] = function (this: unknown, ...args: unknown[]): unknown {
+      return (original as (...params: unknown[]) => unknown).apply(this, args.map(wrapArgument));
+    };
+  }
+}
+
+/**
+ * Patches an Express 4 router or app so every handler registered through
+ * `get`, `post`, `put`, `patch`, `delete`, `options`, `head`, `all`, `use` and
+ * `route()` is wrapped with `asyncHandler`
+ *
+ * @param router - Express router or app
+ * @returns The same router
+ *
+ * @example
+ * ```ts
+ * import express from 'express';
+ * import { obsidian, wrapRouter, errorHandler } from '@periodic/obsidian';
+ *
+ * const router = wrapRouter(express.Router());
+ *
+ * router.get('/users/:id', async (req, res) => {
+ *   throw obsidian.notFound('User not found'); // reaches errorHandler
+ * });
+ *
+ * app.use('/api', router);
+ * app.use(errorHandler());
+ * ```
+ */
+export function wrapRouter<T extends IRouter>(router: T): T {
+  patchMethods(router);
+
+  const route: unknown = (router as { route?: unknown }).route;
+  if (typeof route === 'function') {
+    (router as { route: unknown }).route = function (this: unknown, ...args: unknown[]): unknown {
+      const created: unknown = (route as (...params: unknown[]) => unknown).apply(this, args);
+      if (typeof created === 'object' && created !== null) {
+        patchMethods(created);
+      }
+      return created;
+    };
+  }
+
+  return router;
+}
@@ -0,0 +1,117 @@
+import type {
+  FastifyError,
+  FastifyInstance,
+  FastifyPluginCallback,
+  FastifyReply,
+  FastifyRequest,
+} from 'fastify';
+import { isHttpError, createStatusError } from '../core/http-error';
+import { buildErrorResponse } from '../core/error-response';
+import type { ErrorHandlerOptions } from '../core/error-response';
+import { isDevelopment } from '../core/env';
+
+/**
+ * Options for the Fastify error handler plugin
+ */
+export type FastifyErrorHandlerOptions = ErrorHandlerOptions<FastifyRequest>;
+
+/**
+ * Converts Fastify's own client errors into HttpError instances
+ *
+ * Schema validation failures become 400 errors carrying the validation results,
+ * other Fastify errors with a 4xx `statusCode` keep their status and code.
+ */
+function fromFastifyError(err: FastifyError): Error {
+  if (isHttpError(err)) {
+    return err;
+  }
+
+  if (err.validation) {
+    return createStatusError(400, err.message, {
+      code: err.code,
+      details: {
+        validation: err.validation,
+        validationContext: err.validationContext,
+      },
+    });
+  }
+
+  if (typeof err.statusCode === 'number' && err.statusCode >= 400 && err.statusCode < 500) {
+    return createStatusError(err.statusCode, err.message, { code: err.code });
+  }
+
+  return err;
+}
+
+/**
+ * Creates a Fastify error handler for use with `fastify.setErrorHandler`
+ *
+ * @param options - Configuration options
+ * @returns Fastify error handler
+ *
+ * @example
+ * ```ts
+ * import Fastify from 'fastify';
+ * import { createFastifyErrorHandler } from '@periodic/obsidian';
+ *
+ * const fastify = Fastify();
+ * fastify.setErrorHandler(createFastifyErrorHandler({ format: 'problem' }));
+ * ```
+ */
+export function createFastifyErrorHandler(
+  options: FastifyErrorHandlerOptions = {}
+): (err: FastifyError, request: FastifyRequest, reply: FastifyReply) => void {
+  const { includeStack = isDevelopment(), logger, transform, format = 'json', metrics } = options;
+
+  return (err: FastifyError, request: FastifyRequest, reply: FastifyReply): void => {
+    // Log error if logger provided
+    if (logger) {
+      logger(err, request);
+    }
+
+    const error = fromFastifyError(err);
+    metrics?.record(error, request.routeOptions?.url);
+
+    const { status, headers, body } = buildErrorResponse(error, {
+      includeStack,
+      transform,
+      format,
+    });
+    void reply.status(status).headers(headers).send(body);
+  };
+}
+
+/**
+ * Fastify plugin that registers an error handler for HttpError instances
+ *
+ * The plugin is not encapsulated, so the handler applies to the whole instance
+ * it is registered on.
+ *
+ * @example
+ * ```ts
+ * import Fastify from 'fastify';
+ * import { obsidian, fastifyErrorHandler } from '@periodic/obsidian';
+ *
+ * const fastify = Fastify();
+ *
+ * fastify.register(fastifyErrorHandler, { includeStack: false });
+ *
+ * fastify.get('/users/:id', async () => {
+ *   throw obsidian.notFound('User not found');
+ * });
+ * ```
+ */
+export const fastifyErrorHandler: FastifyPluginCallback<FastifyErrorHandlerOptions> = (
+  fastify: FastifyInstance,
+  options: FastifyErrorHandlerOptions,
+  done: (err?: Error) => void
+): void => {
+  fastify.setErrorHandler(createFastifyErrorHandler(options));
+  done();
+};
+
+// Equivalent of wrapping with fastify-plugin, without the runtime dependency
+Object.assign(fastifyErrorHandler, {
+  [Symbol.for('skip-override')]: true,
+  [Symbol.for('fastify.display-name')]: '@periodic/obsidian',
+});
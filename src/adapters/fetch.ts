@@ -0,0 +1,106 @@
+import { buildErrorResponse } from '../core/error-response';
+import type { ErrorHandlerOptions } from '../core/error-response';
+import { isDevelopment } from '../core/env';
+
+/**
+ * Options for the Fetch API error handler
+ */
+export interface FetchErrorHandlerOptions extends ErrorHandlerOptions<Request> {
+  /**
+   * Returns true for thrown values that must propagate instead of becoming an
+   * error response, such as framework control-flow signals
+   * @default Rethrows Next.js `redirect()`, `notFound()` and dynamic rendering signals
+   */
+  rethrow?: (thrown: unknown) => boolean;
+}
+
+/**
+ * `digest` values of the errors Next.js throws for control flow
+ */
+const NEXT_CONTROL_FLOW_DIGESTS = ['DYNAMIC_SERVER_USAGE', 'BAILOUT_TO_CLIENT_SIDE_RENDERING'];
+
+/**
+ * Recognizes Next.js control-flow errors (`NEXT_REDIRECT`, `NEXT_NOT_FOUND`,
+ * `NEXT_HTTP_ERROR_FALLBACK;404`, ...), which Next.js must catch itself
+ */
+function isNextControlFlow(thrown: unknown): boolean {
+  const digest = (thrown as { digest?: unknown } | null)?.digest;
+  return (
+    typeof digest === 'string' &&
+    (digest.startsWith('NEXT_') || NEXT_CONTROL_FLOW_DIGESTS.includes(digest))
+  );
+}
+
+/**
+ * Fetch-style request handler, as used by Hono, Next.js route handlers,
+ * Bun.serve, Deno.serve and Cloudflare Workers
+ */
+export type FetchHandler<TArgs extends unknown[] = unknown[]> = (
+  request: Request,
+  ...args: TArgs
+) => Response | Promise<Response>;
+
+/**
+ * Wraps a Fetch API handler so thrown errors are turned into `Response` objects
+ *
+ * Uses only web-standard APIs, so it runs in edge runtimes as well as Node.js.
+ * Any extra handler arguments (route context, env bindings) are passed through.
+ * Next.js `redirect()` and `notFound()` signals are rethrown (see `rethrow`).
+ *
+ * @param handler - Request handler to wrap
+ * @param options - Configuration options
+ * @returns Handler that only rejects with the values `rethrow` accepts
+ *
+ * @example
+ * ```ts
+ * import { obsidian, handleFetchErrors } from '@periodic/obsidian';
+ *
+ * export default {
+ *   fetch: handleFetchErrors(async (request) => {
+ *     throw obsidian.notFound('User not found');
+ *   }),
+ * };
+ * ```
+ */
+export function handleFetchErrors<TArgs extends unknown[]>(
+  handler: FetchHandler<TArgs>,
+  options: FetchErrorHandlerOptions = {}
+): (request: Request, ...args: TArgs) => Promise<Response> {
+  const {
+    includeStack = isDevelopment(),
+    logger,
+    transform,
+    format = 'json',
+    metrics,
+    rethrow = isNextControlFlow,
+  } = options;
+
+  return async (request: Request, ...args: TArgs): Promise<Response> => {
+    try {
+      return await handler(request, ...args);
+    } catch (caught) {
+      if (rethrow(caught)) {
+        throw caught;
+      }
+
+      const err = caught instanceof Error ? caught : new Error(String(caught));
+
+      // Log error if logger provided
+      if (logger) {
+        logger(err, request);
+      }
+
+      metrics?.record(caught);
+
+      const { status, headers, body } = buildErrorResponse(caught, {
+        includeStack,
+        transform,
+        format,
+      });
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...headers },
+      });
+    }
+  };
+}
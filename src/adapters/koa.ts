@@ -0,0 +1,65 @@
+import type { Context, Middleware } from 'koa';
+import { buildErrorResponse } from '../core/error-response';
+import type { ErrorHandlerOptions } from '../core/error-response';
+import { isDevelopment } from '../core/env';
+
+/**
+ * Options for Koa error handler middleware
+ */
+export type KoaErrorHandlerOptions = ErrorHandlerOptions<Context>;
+
+/**
+ * Koa middleware for handling HttpError instances
+ *
+ * Register it first so it wraps every downstream middleware. Caught errors are
+ * re-emitted on `ctx.app` as `error` events, like Koa's built-in handler does.
+ *
+ * @param options - Configuration options
+ * @returns Koa middleware
+ *
+ * @example
+ * ```ts
+ * import Koa from 'koa';
+ * import { obsidian, koaErrorHandler } from '@periodic/obsidian';
+ *
+ * const app = new Koa();
+ *
+ * // Add at the start of middleware chain
+ * app.use(koaErrorHandler());
+ *
+ * app.use(async (ctx) => {
+ *   throw obsidian.notFound('User not found');
+ * });
+ * ```
+ */
+export function koaErrorHandler(options: KoaErrorHandlerOptions = {}): Middleware {
+  const { includeStack = isDevelopment(), logger, transform, format = 'json', metrics } = options;
+
+  return async (ctx: Context, next: () => Promise<unknown>): Promise<void> => {
+    try {
+      await next();
+    } catch (caught) {
+      const err = caught instanceof Error ? caught : new Error(String(caught));
+
+      // Log error if logger provided
+      if (logger) {
+        logger(err, ctx);
+      }
+
+      // koa-router sets the matched route pattern
+      metrics?.record(caught, (ctx as { _matchedRoute?: string })._matchedRoute);
+
+      const { status, headers, body } = buildErrorResponse(caught, {
+        includeStack,
+        transform,
+        format,
+      });
+      ctx.status = status;
+      ctx.body = body;
+      // Set after the body: assigning an object body resets Content-Type to JSON
+      ctx.set(headers);
+
+      ctx.app.emit('error', err, ctx);
+    }
+  };
+}
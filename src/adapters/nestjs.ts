@@ -0,0 +1,149 @@
+import type { ArgumentsHost, ExceptionFilter } from '@nestjs/common';
+import { HttpError, createStatusError } from '../core/http-error';
+import { buildErrorResponse } from '../core/error-response';
+import type { ErrorHandlerOptions } from '../core/error-response';
+import { isDevelopment } from '../core/env';
+
+/**
+ * Options for the NestJS exception filter. `logger` receives the platform request
+ * object (Express `Request` or Fastify `FastifyRequest`).
+ */
+export type NestExceptionFilterOptions = ErrorHandlerOptions<unknown>;
+
+/**
+ * Returns the route pattern of an Express or Fastify platform request
+ */
+function getRoute(request: unknown): string | undefined {
+  const { baseUrl, route, routeOptions } = request as {
+    baseUrl?: string;
+    route?: { path?: unknown };
+    routeOptions?: { url?: string };
+  };
+
+  if (typeof route?.path === 'string') {
+    return `${baseUrl ?? ''}${route.path}`;
+  }
+
+  return routeOptions?.url;
+}
+
+/**
+ * Subset of the response API shared by the Express and Fastify platforms
+ */
+interface PlatformResponse {
+  status(code: number): unknown;
+  header(name: string, value: string): unknown;
+  send(body: unknown): unknown;
+}
+
+/**
+ * Shape of Nest's built-in `HttpException`, matched structurally so that
+ * `@nestjs/common` is never required at runtime
+ */
+interface NestHttpException extends Error {
+  getStatus(): number;
+  getResponse(): string | object;
+}
+
+function isNestHttpException(exception: unknown): exception is NestHttpException {
+  return (
+    exception instanceof Error &&
+    typeof (exception as Partial<NestHttpException>).getStatus === 'function' &&
+    typeof (exception as Partial<NestHttpException>).getResponse === 'function'
+  );
+}
+
+/**
+ * Converts a Nest `HttpException` into an HttpError
+ *
+ * String responses become the message. For object responses, a string `message`
+ * is used as-is, while an array `message` (as produced by `ValidationPipe`) is
+ * kept in `details.messages` with the default status message.
+ */
+function fromNestHttpException(exception: NestHttpException): HttpError {
+  const status = exception.getStatus();
+  const response = exception.getResponse();
+
+  if (typeof response === 'string') {
+    return createStatusError(status, response);
+  }
+
+  const { message } = response as { message?: unknown };
+
+  if (Array.isArray(message)) {
+    return createStatusError(status, HttpError.getDefaultMessage(status), {
+      details: { messages: message },
+    });
+  }
+
+  return createStatusError(status, typeof message === 'string' ? message : exception.message);
+}
+
+/**
+ * NestJS exception filter for HttpError instances
+ *
+ * Handles HttpError, Nest's built-in `HttpException` (converted to HttpError) and
+ * unknown errors in HTTP contexts, on both the Express and Fastify platforms.
+ * Exceptions from non-HTTP contexts (RPC, WebSockets) are rethrown.
+ *
+ * @example
+ * ```ts
+ * import { NestFactory } from '@nestjs/core';
+ * import { ObsidianExceptionFilter } from '@periodic/obsidian';
+ *
+ * const app = await NestFactory.create(AppModule);
+ * app.useGlobalFilters(new ObsidianExceptionFilter({ format: 'problem' }));
+ * ```
+ */
+export class ObsidianExceptionFilter implements ExceptionFilter {
+  private readonly options: NestExceptionFilterOptions;
+
+  /**
+   * Creates a new exception filter
+   *
+   * @param options - Configuration options
+   */
+  constructor(options: NestExceptionFilterOptions = {}) {
+    this.options = options;
+  }
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    if (host.getType() !== 'http') {
+      throw exception;
+    }
+
+    const {
+      includeStack = isDevelopment(),
+      logger,
+      transform,
+      format = 'json',
+      metrics,
+    } = this.options;
+    const http = host.switchToHttp();
+
+    const err = isNestHttpException(exception)
+      ? fromNestHttpException(exception)
+      : exception instanceof Error
+        ? exception
+        : new Error(String(exception));
+
+    // Log error if logger provided
+    if (logger) {
+      logger(err, http.getRequest());
+    }
+
+    metrics?.record(err, getRoute(http.getRequest()));
+
+    const { status, headers, body } = buildErrorResponse(err, {
+      includeStack,
+      transform,
+      format,
+    });
+    const response = http.getResponse<PlatformResponse>();
+    response.status(status);
+    for (const [name, value] of Object.entries(headers)) {
+      response.header(name, value);
+    }
+    response.send(body);
+  }
+}
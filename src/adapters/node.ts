@@ -0,0 +1,111 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Http2ServerRequest, Http2ServerResponse } from 'http2';
+import { buildErrorResponse } from '../core/error-response';
+import type { ErrorHandlerOptions } from '../core/error-response';
+import { isDevelopment } from '../core/env';
+
+/**
+ * Request objects passed to `http` and `http2` compatibility-mode listeners
+ */
+export type NodeRequest = IncomingMessage | Http2ServerRequest;
+
+/**
+ * Response objects passed to `http` and `http2` compatibility-mode listeners
+ */
+export type NodeResponse = ServerResponse | Http2ServerResponse;
+
+/**
+ * Options for the node:http error helpers
+ */
+export type NodeErrorHandlerOptions = ErrorHandlerOptions<NodeRequest>;
+
+/**
+ * Writes an error to a node:http or http2 response
+ *
+ * Sets the status, `Content-Type` and `Content-Length` headers and ends the response.
+ * If headers were already sent, the response is only ended.
+ *
+ * @param res - Server response
+ * @param err - Error (or any thrown value) to send
+ * @param options - Configuration options
+ *
+ * @example
+ * ```ts
+ * import http from 'node:http';
+ * import { obsidian, sendHttpError } from '@periodic/obsidian';
+ *
+ * http.createServer((req, res) => {
+ *   sendHttpError(res, obsidian.notFound('User not found'));
+ * });
+ * ```
+ */
+export function sendHttpError(
+  res: NodeResponse,
+  err: unknown,
+  options: Omit<NodeErrorHandlerOptions, 'logger' | 'metrics'> = {}
+): void {
+  const { includeStack = isDevelopment(), transform, format = 'json' } = options;
+
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+
+  const { status, headers, body } = buildErrorResponse(err, { includeStack, transform, format });
+  const payload = JSON.stringify(body);
+
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+  res.setHeader('Content-Length', Buffer.byteLength(payload));
+  res.end(payload);
+}
+
+/**
+ * Wraps a node:http or http2 request listener so thrown errors and rejected
+ * promises are sent with `sendHttpError`
+ *
+ * @param listener - Request listener, sync or async
+ * @param options - Configuration options
+ * @returns Request listener for `http.createServer` or `http2.createServer`
+ *
+ * @example
+ * ```ts
+ * import http from 'node:http';
+ * import { obsidian, withErrorHandling } from '@periodic/obsidian';
+ *
+ * const server = http.createServer(
+ *   withErrorHandling(async (req, res) => {
+ *     throw obsidian.notFound('User not found');
+ *   })
+ * );
+ * ```
+ */
+export function withErrorHandling<Req extends NodeRequest, Res extends NodeResponse>(
+  listener: (req: Req, res: Res) => unknown,
+  options: NodeErrorHandlerOptions = {}
+): (req: Req, res: Res) => void {
+  const { logger, metrics, ...sendOptions } = options;
+
+  return (req: Req, res: Res): void => {
+    const handle = (caught: unknown): void => {
+      const err = caught instanceof Error ? caught : new Error(String(caught));
+
+      // Log error if logger provided
+      if (logger) {
+        logger(err, req);
+      }
+
+      metrics?.record(caught);
+      sendHttpError(res, caught, sendOptions);
+    };
+
+    try {
+      Promise.resolve(listener(req, res)).catch(handle);
+    } catch (caught) {
+      handle(caught);
+    }
+  };
+}
@@ -0,0 +1,102 @@
+import { HttpError, createStatusError } from './http-error';
+import type { HttpErrorOptions } from './types';
+
+/**
+ * Definition of a single application error in a catalog
+ */
+export interface ErrorDefinition {
+  /**
+   * HTTP status code
+   */
+  status: number;
+
+  /**
+   * Default human-readable message (defaults to the status message)
+   */
+  message?: string;
+
+  /**
+   * Problem type URI used in Problem Details output
+   */
+  type?: string;
+}
+
+/**
+ * Options accepted by catalog factories. `code` always comes from the catalog key
+ */
+export type CatalogErrorOptions = Omit<HttpErrorOptions, 'code'>;
+
+/**
+ * Factory created by `defineErrors` for one catalog entry
+ */
+export interface CatalogErrorFactory<K extends string = string, Status extends number = number> {
+  (options?: CatalogErrorOptions): HttpError<Status, K>;
+  (message?: string, options?: CatalogErrorOptions): HttpError<Status, K>;
+
+  /**
+   * Machine-readable code set on created errors (the catalog key)
+   */
+  readonly code: K;
+
+  /**
+   * HTTP status code set on created errors
+   */
+  readonly status: Status;
+}
+
+/**
+ * Factories keyed by code, as returned by `defineErrors`
+ */
+export type ErrorCatalog<D extends Record<string, ErrorDefinition>> = {
+  readonly [K in keyof D & string]: CatalogErrorFactory<K, D[K]['status']>;
+};
+
+/**
+ * Defines a typed catalog of application errors
+ *
+ * Each key becomes the `code` of the errors created by its factory, so codes are
+ * declared once and checked by the compiler everywhere they are thrown.
+ *
+ * @param definitions - Status and default message per error code
+ * @returns Factories keyed by code
+ *
+ * @example
+ * ```ts
+ * const errors = defineErrors({
+ *   USER_NOT_FOUND: { status: 404, message: 'User not found' },
+ *   EMAIL_TAKEN: { status: 409, message: 'Email already registered' },
+ * });
+ *
+ * throw errors.USER_NOT_FOUND({ details: { userId } });
+ * throw errors.EMAIL_TAKEN('Email already used by another account');
+ *
+ * if (isHttpError(err) && err.code === errors.USER_NOT_FOUND.code) {
+ *   // ...
+ * }
+ * ```
+ */
+export function defineErrors<const D extends Record<string, ErrorDefinition>>(
+  definitions: D
+): ErrorCatalog<D> {
+  const catalog: Record<string, CatalogErrorFactory> = {};
+
+  for (const [code, definition] of Object.entries(definitions)) {
+    const { status, message: defaultMessage, type } = definition;
+
+    const factory = (
+      messageOrOptions?: string | CatalogErrorOptions,
+      maybeOptions?: CatalogErrorOptions
+    ): HttpError => {
+      const message = typeof messageOrOptions === 'string' ? messageOrOptions : undefined;
+      const options = typeof messageOrOptions === 'object' ? messageOrOptions : maybeOptions;
+
+      const errorMessage = message || defaultMessage || HttpError.getDefaultMessage(status);
+      const errorOptions = { type, ...options, code };
+      return createStatusError(status, errorMessage, errorOptions);
+    };
+
+    catalog[code] = Object.assign(factory, { code, status });
+  }
+
+  return Object.freeze(catalog) as ErrorCatalog<D>;
+}
@@ -0,0 +1,48 @@
+import type { SerializedCause } from './types';
+
+/**
+ * Maximum number of causes followed, guarding against very deep chains
+ */
+const MAX_CAUSE_DEPTH = 10;
+
+function serializeCause(cause: unknown): SerializedCause {
+  if (!(cause instanceof Error)) {
+    return { message: String(cause) };
+  }
+
+  const entry: SerializedCause = { name: cause.name, message: cause.message };
+  const { code } = cause as { code?: unknown };
+
+  if (typeof code === 'string' || typeof code === 'number') {
+    entry.code = String(code);
+  }
+
+  if (cause.stack !== undefined) {
+    entry.stack = cause.stack;
+  }
+
+  return entry;
+}
+
+/**
+ * Serializes the `cause` chain of an error, starting with its direct cause
+ *
+ * Includes name, message, code and stack of each cause. Cycles are detected and
+ * the chain is cut after a fixed depth.
+ *
+ * @param err - Error whose causes should be serialized
+ * @returns Causes ordered from closest to root, empty if there is none
+ */
+export function serializeCauseChain(err: Error): SerializedCause[] {
+  const chain: SerializedCause[] = [];
+  const seen = new Set<unknown>([err]);
+  let cause = err.cause;
+
+  while (cause !== undefined && !seen.has(cause) && chain.length < MAX_CAUSE_DEPTH) {
+    seen.add(cause);
+    chain.push(serializeCause(cause));
+    cause = cause instanceof Error ? cause.cause : undefined;
+  }
+
+  return chain;
+}
@@ -0,0 +1,9 @@
+/**
+ * Returns true when running outside production (`NODE_ENV !== 'production'`)
+ *
+ * Safe to call in runtimes without a Node.js `process` global (Cloudflare Workers,
+ * browsers), where it returns false so stack traces are never exposed by default.
+ */
+export function isDevelopment(): boolean {
+  return typeof process !== 'undefined' && process.env?.NODE_ENV !== 'production';
+}
@@ -0,0 +1,203 @@
+import { HttpError, toPublicError } from './http-error';
+import { toKnownHttpError } from './normalize';
+import { PROBLEM_JSON_CONTENT_TYPE } from './problem-details';
+import { serializeCauseChain } from './cause';
+import type { ErrorMetrics } from './metrics';
+import type {
+  ErrorResponseFormat,
+  HttpErrorJSON,
+  ProblemDetailsJSON,
+  SerializedCause,
+} from './types';
+
+/**
+ * Options shared by all framework error handlers when building a response
+ */
+export interface ErrorResponseOptions {
+  /**
+   * Include message and stack trace of unknown errors, and the cause chain
+   * of all errors, in the response
+   */
+  includeStack: boolean;
+
+  /**
+   * Custom error transformer, called with the error as it may be sent to clients
+   * (`expose` and `publicDetails` applied) and the original error
+   */
+  transform?: (error: HttpError, original: HttpError) => Record<string, unknown>;
+
+  /**
+   * Response body format
+   * @default 'json'
+   */
+  format?: ErrorResponseFormat;
+
+  /**
+   * Registered locale to translate messages and reason phrases into
+   * (sent back as `Content-Language`)
+   */
+  locale?: string;
+
+  /**
+   * Correlation ID of the request, sent as `X-Request-Id` and as `requestId`
+   * in the body
+   */
+  requestId?: string;
+
+  /**
+   * ID of the 500 sent for errors that are not HttpErrors, so it matches the
+   * logged `id` (generated when omitted)
+   */
+  id?: string;
+}
+
+/**
+ * Options shared by the framework error handlers (Express, Fastify, Koa, NestJS,
+ * Fetch API and node:http), generic over the framework's request type
+ */
+export interface ErrorHandlerOptions<TRequest> {
+  /**
+   * Include stack trace in development mode
+   * @default process.env.NODE_ENV !== 'production' (false when `process` is unavailable)
+   */
+  includeStack?: boolean;
+
+  /**
+   * Custom logger function
+   */
+  logger?: (error: Error, request: TRequest) => void;
+
+  /**
+   * Custom error transformer, called with the error as it may be sent to clients
+   * (`expose` and `publicDetails` applied) and the original error
+   */
+  transform?: (error: HttpError, original: HttpError) => Record<string, unknown>;
+
+  /**
+   * Response body format. `problem` sends RFC 9457 Problem Details
+   * with `Content-Type: application/problem+json`
+   * @default 'json'
+   */
+  format?: ErrorResponseFormat;
+
+  /**
+   * Error counter updated for every handled error (see `createErrorMetrics`)
+   */
+  metrics?: ErrorMetrics;
+}
+
+/**
+ * Framework-agnostic description of an error response
+ */
+export interface ErrorResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Builds the status, headers and body an error handler should send for an error
+ *
+ * HttpError instances, and failures `normalizeError` recognizes (body-parser errors,
+ * connection errors, ...), are serialized with `toJSON()`/`toProblemJSON()` (or
+ * `transform`) and their `headers` are included. `publicDetails` replace `details`;
+ * without `includeStack`, errors that are not exposed get their default message and
+ * no internal `details`.
+ * Any other error becomes a 500 whose message and stack are only exposed when
+ * `includeStack` is true. With `includeStack`, the `cause` chain is added as `causes`
+ * unless a `transform` is used.
+ *
+ * @param thrown - Value caught by the framework
+ * @param options - Response options
+ * @returns Response description to be written by the adapter
+ */
+export function buildErrorResponse(thrown: unknown, options: ErrorResponseOptions): ErrorResponse {
+  const { includeStack, transform, format = 'json', locale, requestId, id } = options;
+  const problem = format === 'problem';
+  const headers: Record<string, string> = problem
+    ? { 'Content-Type': PROBLEM_JSON_CONTENT_TYPE }
+    : {};
+  if (locale !== undefined) {
+    headers['Content-Language'] = locale;
+  }
+  if (requestId !== undefined) {
+    headers['X-Request-Id'] = requestId;
+  }
+
+  // Handle HttpError instances and recognized failures
+  const httpError = toKnownHttpError(thrown);
+  if (httpError) {
+    const errorHeaders = { ...httpError.headers, ...headers };
+
+    const publicError = toPublicError(httpError, includeStack, locale);
+    if (transform) {
+      return {
+        status: httpError.status,
+        headers: errorHeaders,
+        body: transform(publicError, httpError),
+      };
+    }
+
+    const body = serialize(publicError, problem, locale, requestId);
+    return {
+      status: httpError.status,
+      headers: errorHeaders,
+      body: includeStack ? withCauses(body, httpError) : body,
+    };
+  }
+
+  // Handle unknown errors
+  if (!includeStack) {
+    return {
+      status: 500,
+      headers,
+      body: serialize(
+        new HttpError(500, HttpError.getDefaultMessage(500, locale), { id }),
+        problem,
+        locale,
+        requestId
+      ),
+    };
+  }
+
+  // Development mode: include error details
+  const err = thrown instanceof Error ? thrown : new Error(String(thrown));
+  return {
+    status: 500,
+    headers,
+    body: withCauses(
+      {
+        ...serialize(new HttpError(500, err.message, { id }), problem, locale, requestId),
+        stack: err.stack,
+      },
+      err
+    ),
+  };
+}
+
+/**
+ * Serializes the public view of an error, with the Problem Details title in the
+ * response locale and the request ID
+ */
+function serialize(
+  err: HttpError,
+  problem: boolean,
+  locale: string | undefined,
+  requestId: string | undefined
+): (HttpErrorJSON | ProblemDetailsJSON) & { requestId?: string } {
+  const body = problem
+    ? { ...err.toProblemJSON(), title: HttpError.getDefaultMessage(err.status, locale) }
+    : err.toJSON();
+  return requestId !== undefined ? { ...body, requestId } : body;
+}
+
+/**
+ * Adds the serialized cause chain of an error to a response body, if it has one
+ */
+function withCauses<T extends object>(
+  body: T,
+  err: Error
+): T | (T & { causes: SerializedCause[] }) {
+  const causes = serializeCauseChain(err);
+  return causes.length > 0 ? { ...body, causes } : body;
+}
@@ -0,0 +1,850 @@
+import { HttpError, registerStatusErrorClasses } from './http-error';
+import type { HttpErrorOptions } from './types';
+import { HttpStatusCode } from './status-codes';
+
+/**
+ * Constructor of a status-specific HttpError subclass
+ */
+export type StatusErrorClass<Status extends number = number> = new <
+  Code extends string = string,
+  Details = unknown,
+>(
+  message?: string,
+  options?: HttpErrorOptions<Code, Details>
+) => HttpError<Status, Code, Details>;
+
+// ============================================================================
+// 4xx Client Errors
+// ============================================================================
+
+/**
+ * 400 Bad Request
+ * The server cannot or will not process the request due to a client error.
+ */
+export class BadRequestError<Code extends string = string, Details = unknown> extends HttpError<
+  400,
+  Code,
+  Details
+> {
+  readonly name = 'BadRequestError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.BAD_REQUEST,
+      message || HttpError.getDefaultMessage(HttpStatusCode.BAD_REQUEST),
+      options
+    );
+  }
+}
+
+/**
+ * 401 Unauthorized
+ * Authentication is required and has failed or has not been provided.
+ */
+export class UnauthorizedError<Code extends string = string, Details = unknown> extends HttpError<
+  401,
+  Code,
+  Details
+> {
+  readonly name = 'UnauthorizedError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.UNAUTHORIZED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.UNAUTHORIZED),
+      options
+    );
+  }
+}
+
+/**
+ * 402 Payment Required
+ * Reserved for future use.
+ */
+export class PaymentRequiredError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<402, Code, Details> {
+  readonly name = 'PaymentRequiredError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.PAYMENT_REQUIRED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.PAYMENT_REQUIRED),
+      options
+    );
+  }
+}
+
+/**
+ * 403 Forbidden
+ * The request was valid, but the server is refusing action.
+ */
+export class ForbiddenError<Code extends string = string, Details = unknown> extends HttpError<
+  403,
+  Code,
+  Details
+> {
+  readonly name = 'ForbiddenError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.FORBIDDEN,
+      message || HttpError.getDefaultMessage(HttpStatusCode.FORBIDDEN),
+      options
+    );
+  }
+}
+
+/**
+ * 404 Not Found
+ * The requested resource could not be found.
+ */
+export class NotFoundError<Code extends string = string, Details = unknown> extends HttpError<
+  404,
+  Code,
+  Details
+> {
+  readonly name = 'NotFoundError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.NOT_FOUND,
+      message || HttpError.getDefaultMessage(HttpStatusCode.NOT_FOUND),
+      options
+    );
+  }
+}
+
+/**
+ * 405 Method Not Allowed
+ * A request method is not supported for the requested resource.
+ */
+export class MethodNotAllowedError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<405, Code, Details> {
+  readonly name = 'MethodNotAllowedError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.METHOD_NOT_ALLOWED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.METHOD_NOT_ALLOWED),
+      options
+    );
+  }
+}
+
+/**
+ * 406 Not Acceptable
+ * The requested resource is capable of generating only content not acceptable.
+ */
+export class NotAcceptableError<Code extends string = string, Details = unknown> extends HttpError<
+  406,
+  Code,
+  Details
+> {
+  readonly name = 'NotAcceptableError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.NOT_ACCEPTABLE,
+      message || HttpError.getDefaultMessage(HttpStatusCode.NOT_ACCEPTABLE),
+      options
+    );
+  }
+}
+
+/**
+ * 407 Proxy Authentication Required
+ * The client must first authenticate itself with the proxy.
+ */
+export class ProxyAuthenticationRequiredError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<407, Code, Details> {
+  readonly name = 'ProxyAuthenticationRequiredError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.PROXY_AUTHENTICATION_REQUIRED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.PROXY_AUTHENTICATION_REQUIRED),
+      options
+    );
+  }
+}
+
+/**
+ * 408 Request Timeout
+ * The server timed out waiting for the request.
+ */
+export class RequestTimeoutError<Code extends string = string, Details = unknown> extends HttpError<
+  408,
+  Code,
+  Details
+> {
+  readonly name = 'RequestTimeoutError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.REQUEST_TIMEOUT,
+      message || HttpError.getDefaultMessage(HttpStatusCode.REQUEST_TIMEOUT),
+      options
+    );
+  }
+}
+
+/**
+ * 409 Conflict
+ * The request could not be processed because of conflict in the request.
+ */
+export class ConflictError<Code extends string = string, Details = unknown> extends HttpError<
+  409,
+  Code,
+  Details
+> {
+  readonly name = 'ConflictError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.CONFLICT,
+      message || HttpError.getDefaultMessage(HttpStatusCode.CONFLICT),
+      options
+    );
+  }
+}
+
+/**
+ * 410 Gone
+ * The resource requested is no longer available and will not be available again.
+ */
+export class GoneError<Code extends string = string, Details = unknown> extends HttpError<
+  410,
+  Code,
+  Details
+> {
+  readonly name = 'GoneError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.GONE,
+      message || HttpError.getDefaultMessage(HttpStatusCode.GONE),
+      options
+    );
+  }
+}
+
+/**
+ * 411 Length Required
+ * The request did not specify the length of its content.
+ */
+export class LengthRequiredError<Code extends string = string, Details = unknown> extends HttpError<
+  411,
+  Code,
+  Details
+> {
+  readonly name = 'LengthRequiredError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.LENGTH_REQUIRED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.LENGTH_REQUIRED),
+      options
+    );
+  }
+}
+
+/**
+ * 412 Precondition Failed
+ * The server does not meet one of the preconditions specified in the request.
+ */
+export class PreconditionFailedError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<412, Code, Details> {
+  readonly name = 'PreconditionFailedError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.PRECONDITION_FAILED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.PRECONDITION_FAILED),
+      options
+    );
+  }
+}
+
+/**
+ * 413 Payload Too Large
+ * The request is larger than the server is willing or able to process.
+ */
+export class PayloadTooLargeError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<413, Code, Details> {
+  readonly name = 'PayloadTooLargeError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.PAYLOAD_TOO_LARGE,
+      message || HttpError.getDefaultMessage(HttpStatusCode.PAYLOAD_TOO_LARGE),
+      options
+    );
+  }
+}
+
+/**
+ * 414 URI Too Long
+ * The URI provided was too long for the server to process.
+ */
+export class UriTooLongError<Code extends string = string, Details = unknown> extends HttpError<
+  414,
+  Code,
+  Details
+> {
+  readonly name = 'UriTooLongError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.URI_TOO_LONG,
+      message || HttpError.getDefaultMessage(HttpStatusCode.URI_TOO_LONG),
+      options
+    );
+  }
+}
+
+/**
+ * 415 Unsupported Media Type
+ * The request entity has a media type which the server or resource does not support.
+ */
+export class UnsupportedMediaTypeError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<415, Code, Details> {
+  readonly name = 'UnsupportedMediaTypeError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.UNSUPPORTED_MEDIA_TYPE,
+      message || HttpError.getDefaultMessage(HttpStatusCode.UNSUPPORTED_MEDIA_TYPE),
+      options
+    );
+  }
+}
+
+/**
+ * 416 Range Not Satisfiable
+ * The client has asked for a portion of the file, but the server cannot supply that portion.
+ */
+export class RangeNotSatisfiableError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<416, Code, Details> {
+  readonly name = 'RangeNotSatisfiableError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.RANGE_NOT_SATISFIABLE,
+      message || HttpError.getDefaultMessage(HttpStatusCode.RANGE_NOT_SATISFIABLE),
+      options
+    );
+  }
+}
+
+/**
+ * 417 Expectation Failed
+ * The server cannot meet the requirements of the Expect request-header field.
+ */
+export class ExpectationFailedError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<417, Code, Details> {
+  readonly name = 'ExpectationFailedError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.EXPECTATION_FAILED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.EXPECTATION_FAILED),
+      options
+    );
+  }
+}
+
+/**
+ * 418 I'm a Teapot
+ * Any attempt to brew coffee with a teapot should result in the error code "418 I'm a teapot".
+ */
+export class ImATeapotError<Code extends string = string, Details = unknown> extends HttpError<
+  418,
+  Code,
+  Details
+> {
+  readonly name = 'ImATeapotError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.IM_A_TEAPOT,
+      message || HttpError.getDefaultMessage(HttpStatusCode.IM_A_TEAPOT),
+      options
+    );
+  }
+}
+
+/**
+ * 421 Misdirected Request
+ * The request was directed at a server that is not able to produce a response.
+ */
+export class MisdirectedRequestError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<421, Code, Details> {
+  readonly name = 'MisdirectedRequestError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.MISDIRECTED_REQUEST,
+      message || HttpError.getDefaultMessage(HttpStatusCode.MISDIRECTED_REQUEST),
+      options
+    );
+  }
+}
+
+/**
+ * 422 Unprocessable Entity
+ * The request was well-formed but was unable to be followed due to semantic errors.
+ */
+export class UnprocessableEntityError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<422, Code, Details> {
+  readonly name = 'UnprocessableEntityError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.UNPROCESSABLE_ENTITY,
+      message || HttpError.getDefaultMessage(HttpStatusCode.UNPROCESSABLE_ENTITY),
+      options
+    );
+  }
+}
+
+/**
+ * 423 Locked
+ * The resource that is being accessed is locked.
+ */
+export class LockedError<Code extends string = string, Details = unknown> extends HttpError<
+  423,
+  Code,
+  Details
+> {
+  readonly name = 'LockedError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.LOCKED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.LOCKED),
+      options
+    );
+  }
+}
+
+/**
+ * 424 Failed Dependency
+ * The request failed due to failure of a previous request.
+ */
+export class FailedDependencyError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<424, Code, Details> {
+  readonly name = 'FailedDependencyError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.FAILED_DEPENDENCY,
+      message || HttpError.getDefaultMessage(HttpStatusCode.FAILED_DEPENDENCY),
+      options
+    );
+  }
+}
+
+/**
+ * 425 Too Early
+ * The server is unwilling to risk processing a request that might be replayed.
+ */
+export class TooEarlyError<Code extends string = string, Details = unknown> extends HttpError<
+  425,
+  Code,
+  Details
+> {
+  readonly name = 'TooEarlyError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.TOO_EARLY,
+      message || HttpError.getDefaultMessage(HttpStatusCode.TOO_EARLY),
+      options
+    );
+  }
+}
+
+/**
+ * 426 Upgrade Required
+ * The client should switch to a different protocol.
+ */
+export class UpgradeRequiredError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<426, Code, Details> {
+  readonly name = 'UpgradeRequiredError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.UPGRADE_REQUIRED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.UPGRADE_REQUIRED),
+      options
+    );
+  }
+}
+
+/**
+ * 428 Precondition Required
+ * The origin server requires the request to be conditional.
+ */
+export class PreconditionRequiredError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<428, Code, Details> {
+  readonly name = 'PreconditionRequiredError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.PRECONDITION_REQUIRED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.PRECONDITION_REQUIRED),
+      options
+    );
+  }
+}
+
+/**
+ * 429 Too Many Requests
+ * The user has sent too many requests in a given amount of time.
+ */
+export class TooManyRequestsError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<429, Code, Details> {
+  readonly name = 'TooManyRequestsError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.TOO_MANY_REQUESTS,
+      message || HttpError.getDefaultMessage(HttpStatusCode.TOO_MANY_REQUESTS),
+      options
+    );
+  }
+}
+
+/**
+ * 431 Request Header Fields Too Large
+ * The server is unwilling to process the request because either an individual header field,
+ * or all the header fields collectively, are too large.
+ */
+export class RequestHeaderFieldsTooLargeError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<431, Code, Details> {
+  readonly name = 'RequestHeaderFieldsTooLargeError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.REQUEST_HEADER_FIELDS_TOO_LARGE,
+      message || HttpError.getDefaultMessage(HttpStatusCode.REQUEST_HEADER_FIELDS_TOO_LARGE),
+      options
+    );
+  }
+}
+
+/**
+ * 451 Unavailable For Legal Reasons
+ * A server operator has received a legal demand to deny access to a resource or to a set of resources.
+ */
+export class UnavailableForLegalReasonsError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<451, Code, Details> {
+  readonly name = 'UnavailableForLegalReasonsError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.UNAVAILABLE_FOR_LEGAL_REASONS,
+      message || HttpError.getDefaultMessage(HttpStatusCode.UNAVAILABLE_FOR_LEGAL_REASONS),
+      options
+    );
+  }
+}
+
+// ============================================================================
+// 5xx Server Errors
+// ============================================================================
+
+/**
+ * 500 Internal Server Error
+ * A generic error message when an unexpected condition was encountered.
+ */
+export class InternalServerError<Code extends string = string, Details = unknown> extends HttpError<
+  500,
+  Code,
+  Details
+> {
+  readonly name = 'InternalServerError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.INTERNAL_SERVER_ERROR,
+      message || HttpError.getDefaultMessage(HttpStatusCode.INTERNAL_SERVER_ERROR),
+      options
+    );
+  }
+}
+
+/**
+ * 501 Not Implemented
+ * The server either does not recognize the request method, or it lacks the ability to fulfill the request.
+ */
+export class NotImplementedError<Code extends string = string, Details = unknown> extends HttpError<
+  501,
+  Code,
+  Details
+> {
+  readonly name = 'NotImplementedError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.NOT_IMPLEMENTED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.NOT_IMPLEMENTED),
+      options
+    );
+  }
+}
+
+/**
+ * 502 Bad Gateway
+ * The server was acting as a gateway or proxy and received an invalid response from the upstream server.
+ */
+export class BadGatewayError<Code extends string = string, Details = unknown> extends HttpError<
+  502,
+  Code,
+  Details
+> {
+  readonly name = 'BadGatewayError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.BAD_GATEWAY,
+      message || HttpError.getDefaultMessage(HttpStatusCode.BAD_GATEWAY),
+      options
+    );
+  }
+}
+
+/**
+ * 503 Service Unavailable
+ * The server is currently unavailable (overloaded or down for maintenance).
+ */
+export class ServiceUnavailableError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<503, Code, Details> {
+  readonly name = 'ServiceUnavailableError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.SERVICE_UNAVAILABLE,
+      message || HttpError.getDefaultMessage(HttpStatusCode.SERVICE_UNAVAILABLE),
+      options
+    );
+  }
+}
+
+/**
+ * 504 Gateway Timeout
+ * The server was acting as a gateway or proxy and did not receive a timely response.
+ */
+export class GatewayTimeoutError<Code extends string = string, Details = unknown> extends HttpError<
+  504,
+  Code,
+  Details
+> {
+  readonly name = 'GatewayTimeoutError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.GATEWAY_TIMEOUT,
+      message || HttpError.getDefaultMessage(HttpStatusCode.GATEWAY_TIMEOUT),
+      options
+    );
+  }
+}
+
+/**
+ * 505 HTTP Version Not Supported
+ * The server does not support the HTTP protocol version used in the request.
+ */
+export class HttpVersionNotSupportedError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<505, Code, Details> {
+  readonly name = 'HttpVersionNotSupportedError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.HTTP_VERSION_NOT_SUPPORTED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.HTTP_VERSION_NOT_SUPPORTED),
+      options
+    );
+  }
+}
+
+/**
+ * 506 Variant Also Negotiates
+ * Transparent content negotiation for the request results in a circular reference.
+ */
+export class VariantAlsoNegotiatesError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<506, Code, Details> {
+  readonly name = 'VariantAlsoNegotiatesError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.VARIANT_ALSO_NEGOTIATES,
+      message || HttpError.getDefaultMessage(HttpStatusCode.VARIANT_ALSO_NEGOTIATES),
+      options
+    );
+  }
+}
+
+/**
+ * 507 Insufficient Storage
+ * The server is unable to store the representation needed to complete the request.
+ */
+export class InsufficientStorageError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<507, Code, Details> {
+  readonly name = 'InsufficientStorageError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.INSUFFICIENT_STORAGE,
+      message || HttpError.getDefaultMessage(HttpStatusCode.INSUFFICIENT_STORAGE),
+      options
+    );
+  }
+}
+
+/**
+ * 508 Loop Detected
+ * The server detected an infinite loop while processing the request.
+ */
+export class LoopDetectedError<Code extends string = string, Details = unknown> extends HttpError<
+  508,
+  Code,
+  Details
+> {
+  readonly name = 'LoopDetectedError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.LOOP_DETECTED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.LOOP_DETECTED),
+      options
+    );
+  }
+}
+
+/**
+ * 510 Not Extended
+ * Further extensions to the request are required for the server to fulfill it.
+ */
+export class NotExtendedError<Code extends string = string, Details = unknown> extends HttpError<
+  510,
+  Code,
+  Details
+> {
+  readonly name = 'NotExtendedError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.NOT_EXTENDED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.NOT_EXTENDED),
+      options
+    );
+  }
+}
+
+/**
+ * 511 Network Authentication Required
+ * The client needs to authenticate to gain network access.
+ */
+export class NetworkAuthenticationRequiredError<
+  Code extends string = string,
+  Details = unknown,
+> extends HttpError<511, Code, Details> {
+  readonly name = 'NetworkAuthenticationRequiredError';
+
+  constructor(message?: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      HttpStatusCode.NETWORK_AUTHENTICATION_REQUIRED,
+      message || HttpError.getDefaultMessage(HttpStatusCode.NETWORK_AUTHENTICATION_REQUIRED),
+      options
+    );
+  }
+}
+
+/**
+ * HttpError subclass for each 4xx/5xx status code
+ */
+export const statusErrorClasses: Readonly<Partial<Record<number, StatusErrorClass>>> = {
+  [HttpStatusCode.BAD_REQUEST]: BadRequestError,
+  [HttpStatusCode.UNAUTHORIZED]: UnauthorizedError,
+  [HttpStatusCode.PAYMENT_REQUIRED]: PaymentRequiredError,
+  [HttpStatusCode.FORBIDDEN]: ForbiddenError,
+  [HttpStatusCode.NOT_FOUND]: NotFoundError,
+  [HttpStatusCode.METHOD_NOT_ALLOWED]: MethodNotAllowedError,
+  [HttpStatusCode.NOT_ACCEPTABLE]: NotAcceptableError,
+  [HttpStatusCode.PROXY_AUTHENTICATION_REQUIRED]: ProxyAuthenticationRequiredError,
+  [HttpStatusCode.REQUEST_TIMEOUT]: RequestTimeoutError,
+  [HttpStatusCode.CONFLICT]: ConflictError,
+  [HttpStatusCode.GONE]: GoneError,
+  [HttpStatusCode.LENGTH_REQUIRED]: LengthRequiredError,
+  [HttpStatusCode.PRECONDITION_FAILED]: PreconditionFailedError,
+  [HttpStatusCode.PAYLOAD_TOO_LARGE]: PayloadTooLargeError,
+  [HttpStatusCode.URI_TOO_LONG]: UriTooLongError,
+  [HttpStatusCode.UNSUPPORTED_MEDIA_TYPE]: UnsupportedMediaTypeError,
+  [HttpStatusCode.RANGE_NOT_SATISFIABLE]: RangeNotSatisfiableError,
+  [HttpStatusCode.EXPECTATION_FAILED]: ExpectationFailedError,
+  [HttpStatusCode.IM_A_TEAPOT]: ImATeapotError,
+  [HttpStatusCode.MISDIRECTED_REQUEST]: MisdirectedRequestError,
+  [HttpStatusCode.UNPROCESSABLE_ENTITY]: UnprocessableEntityError,
+  [HttpStatusCode.LOCKED]: LockedError,
+  [HttpStatusCode.FAILED_DEPENDENCY]: FailedDependencyError,
+  [HttpStatusCode.TOO_EARLY]: TooEarlyError,
+  [HttpStatusCode.UPGRADE_REQUIRED]: UpgradeRequiredError,
+  [HttpStatusCode.PRECONDITION_REQUIRED]: PreconditionRequiredError,
+  [HttpStatusCode.TOO_MANY_REQUESTS]: TooManyRequestsError,
+  [HttpStatusCode.REQUEST_HEADER_FIELDS_TOO_LARGE]: RequestHeaderFieldsTooLargeError,
+  [HttpStatusCode.UNAVAILABLE_FOR_LEGAL_REASONS]: UnavailableForLegalReasonsError,
+  [HttpStatusCode.INTERNAL_SERVER_ERROR]: InternalServerError,
+  [HttpStatusCode.NOT_IMPLEMENTED]: NotImplementedError,
+  [HttpStatusCode.BAD_GATEWAY]: BadGatewayError,
+  [HttpStatusCode.SERVICE_UNAVAILABLE]: ServiceUnavailableError,
+  [HttpStatusCode.GATEWAY_TIMEOUT]: GatewayTimeoutError,
+  [HttpStatusCode.HTTP_VERSION_NOT_SUPPORTED]: HttpVersionNotSupportedError,
+  [HttpStatusCode.VARIANT_ALSO_NEGOTIATES]: VariantAlsoNegotiatesError,
+  [HttpStatusCode.INSUFFICIENT_STORAGE]: InsufficientStorageError,
+  [HttpStatusCode.LOOP_DETECTED]: LoopDetectedError,
+  [HttpStatusCode.NOT_EXTENDED]: NotExtendedError,
+  [HttpStatusCode.NETWORK_AUTHENTICATION_REQUIRED]: NetworkAuthenticationRequiredError,
+};
+
+registerStatusErrorClasses(statusErrorClasses);
@@ -1,22 +1,189 @@
 import { HttpError } from './http-error';
-import type { HttpErrorOptions } from './types';
+import type {
+  HttpErrorOptions,
+  ErrorFactory,
+  TypedErrorFactory,
+  RetryAfterOptions,
+  MethodNotAllowedOptions,
+  UnauthorizedOptions,
+  PayloadTooLargeOptions,
+} from './types';
 import { HttpStatusCode } from './status-codes';
-
-/**
- * Factory function type for creating HTTP errors
- */
-type ErrorFactory = (message?: string, options?: HttpErrorOptions) => HttpError;
+import {
+  BadRequestError,
+  UnauthorizedError,
+  PaymentRequiredError,
+  ForbiddenError,
+  NotFoundError,
+  MethodNotAllowedError,
+  NotAcceptableError,
+  ProxyAuthenticationRequiredError,
+  RequestTimeoutError,
+  ConflictError,
+  GoneError,
+  LengthRequiredError,
+  PreconditionFailedError,
+  PayloadTooLargeError,
+  UriTooLongError,
+  UnsupportedMediaTypeError,
+  RangeNotSatisfiableError,
+  ExpectationFailedError,
+  ImATeapotError,
+  MisdirectedRequestError,
+  UnprocessableEntityError,
+  LockedError,
+  FailedDependencyError,
+  TooEarlyError,
+  UpgradeRequiredError,
+  PreconditionRequiredError,
+  TooManyRequestsError,
+  RequestHeaderFieldsTooLargeError,
+  UnavailableForLegalReasonsError,
+  InternalServerError,
+  NotImplementedError,
+  BadGatewayError,
+  ServiceUnavailableError,
+  GatewayTimeoutError,
+  HttpVersionNotSupportedError,
+  VariantAlsoNegotiatesError,
+  InsufficientStorageError,
+  LoopDetectedError,
+  NotExtendedError,
+  NetworkAuthenticationRequiredError,
+  statusErrorClasses,
+} from './errors';
+import type { StatusErrorClass } from './errors';
 
 /**
  * Creates an error factory for a specific HTTP status code
- */
-function createFactory(status: number): ErrorFactory {
-  return (message?: string, options?: HttpErrorOptions) => {
+ *
+ * Errors are instances of `ErrorClass` when given (4xx/5xx), plain HttpError otherwise.
+ */
+function createFactory<Status extends number>(
+  status: Status,
+  ErrorClass?: StatusErrorClass<Status>
+): ErrorFactory<Status> {
+  return <Code extends string = string, Details = unknown>(
+    message?: string,
+    options?: HttpErrorOptions<Code, Details>
+  ) => {
+    if (ErrorClass) {
+      return new ErrorClass(message, options);
+    }
+
     const errorMessage = message || HttpError.getDefaultMessage(status);
     return new HttpError(status, errorMessage, options);
   };
 }
 
+/**
+ * Headers and details derived from status-specific options
+ */
+interface TypedMetadata {
+  headers?: Record<string, string>;
+  details?: Record<string, unknown>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Creates an error factory whose status-specific options are turned into
+ * response headers and structured details
+ *
+ * Generated details are merged into object `details`; explicit `headers` win
+ * over generated ones.
+ */
+function createTypedFactory<Status extends number, O extends HttpErrorOptions>(
+  ErrorClass: StatusErrorClass<Status>,
+  keys: ReadonlyArray<Exclude<keyof O, keyof HttpErrorOptions>>,
+  toMetadata: (options: O) => TypedMetadata
+): TypedErrorFactory<Status, O> {
+  return ((messageOrOptions?: string | O, maybeOptions?: O) => {
+    const message = typeof messageOrOptions === 'string' ? messageOrOptions : undefined;
+    const options = typeof messageOrOptions === 'object' ? messageOrOptions : maybeOptions;
+    if (!options) {
+      return new ErrorClass(message);
+    }
+
+    const { headers, details } = toMetadata(options);
+    const errorOptions = { ...options } as Record<string, unknown>;
+    for (const key of keys) {
+      delete errorOptions[key as string];
+    }
+
+    if (headers) {
+      errorOptions.headers = { ...headers, ...options.headers };
+    }
+
+    if (details && (options.details === undefined || isPlainObject(options.details))) {
+      errorOptions.details = { ...details, ...options.details };
+    }
+
+    return new ErrorClass(message, errorOptions as HttpErrorOptions);
+  }) as TypedErrorFactory<Status, O>;
+}
+
+function retryAfterMetadata({ retryAfter }: RetryAfterOptions): TypedMetadata {
+  if (retryAfter === undefined) {
+    return {};
+  }
+
+  if (retryAfter instanceof Date) {
+    return {
+      headers: { 'Retry-After': retryAfter.toUTCString() },
+      details: { retryAfter: retryAfter.toISOString() },
+    };
+  }
+
+  const seconds = Math.ceil(retryAfter);
+  return { headers: { 'Retry-After': String(seconds) }, details: { retryAfter: seconds } };
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Builds a `WWW-Authenticate` challenge, e.g. `Bearer realm="api", error="invalid_token"`
+ */
+function unauthorizedMetadata({ scheme, realm, error }: UnauthorizedOptions): TypedMetadata {
+  if (scheme === undefined && realm === undefined && error === undefined) {
+    return {};
+  }
+
+  const challengeScheme = scheme ?? 'Bearer';
+  const params: string[] = [];
+  const details: Record<string, unknown> = { scheme: challengeScheme };
+
+  if (realm !== undefined) {
+    params.push(`realm=${quote(realm)}`);
+    details.realm = realm;
+  }
+
+  if (error !== undefined) {
+    params.push(`error=${quote(error)}`);
+    details.error = error;
+  }
+
+  const challenge = params.length > 0 ? `${challengeScheme} ${params.join(', ')}` : challengeScheme;
+  return { headers: { 'WWW-Authenticate': challenge }, details };
+}
+
+function methodNotAllowedMetadata({ allow }: MethodNotAllowedOptions): TypedMetadata {
+  if (allow === undefined) {
+    return {};
+  }
+
+  const methods = allow.map((method) => method.toUpperCase());
+  return { headers: { Allow: methods.join(', ') }, details: { allow: methods } };
+}
+
+function payloadTooLargeMetadata({ limit }: PayloadTooLargeOptions): TypedMetadata {
+  return limit === undefined ? {} : { details: { limit } };
+}
+
 // ============================================================================
 // 1xx Informational
 // ============================================================================
@@ -171,165 +338,210 @@ export const permanentRedirect = createFactory(HttpStatusCode.PERMANENT_REDIRECT
  * 400 Bad Request
  * The server cannot or will not process the request due to a client error.
  */
-export const badRequest = createFactory(HttpStatusCode.BAD_REQUEST);
+export const badRequest = createFactory(HttpStatusCode.BAD_REQUEST, BadRequestError);
 
 /**
  * 401 Unauthorized
  * Authentication is required and has failed or has not been provided.
+ * Accepts `scheme`, `realm` and `error` to set the `WWW-Authenticate` header.
  */
-export const unauthorized = createFactory(HttpStatusCode.UNAUTHORIZED);
+export const unauthorized = createTypedFactory(
+  UnauthorizedError,
+  ['scheme', 'realm', 'error'],
+  unauthorizedMetadata
+);
 
 /**
  * 402 Payment Required
  * Reserved for future use.
  */
-export const paymentRequired = createFactory(HttpStatusCode.PAYMENT_REQUIRED);
+export const paymentRequired = createFactory(HttpStatusCode.PAYMENT_REQUIRED, PaymentRequiredError);
 
 /**
  * 403 Forbidden
  * The request was valid, but the server is refusing action.
  */
-export const forbidden = createFactory(HttpStatusCode.FORBIDDEN);
+export const forbidden = createFactory(HttpStatusCode.FORBIDDEN, ForbiddenError);
 
 /**
  * 404 Not Found
  * The requested resource could not be found.
  */
-export const notFound = createFactory(HttpStatusCode.NOT_FOUND);
+export const notFound = createFactory(HttpStatusCode.NOT_FOUND, NotFoundError);
 
 /**
  * 405 Method Not Allowed
  * A request method is not supported for the requested resource.
+ * Accepts `allow` to set the `Allow` header.
  */
-export const methodNotAllowed = createFactory(HttpStatusCode.METHOD_NOT_ALLOWED);
+export const methodNotAllowed = createTypedFactory(
+  MethodNotAllowedError,
+  ['allow'],
+  methodNotAllowedMetadata
+);
 
 /**
  * 406 Not Acceptable
  * The requested resource is capable of generating only content not acceptable.
  */
-export const notAcceptable = createFactory(HttpStatusCode.NOT_ACCEPTABLE);
+export const notAcceptable = createFactory(HttpStatusCode.NOT_ACCEPTABLE, NotAcceptableError);
 
 /**
  * 407 Proxy Authentication Required
  * The client must first authenticate itself with the proxy.
  */
 export const proxyAuthenticationRequired = createFactory(
-  HttpStatusCode.PROXY_AUTHENTICATION_REQUIRED
+  HttpStatusCode.PROXY_AUTHENTICATION_REQUIRED,
+  ProxyAuthenticationRequiredError
 );
 
 /**
  * 408 Request Timeout
  * The server timed out waiting for the request.
  */
-export const requestTimeout = createFactory(HttpStatusCode.REQUEST_TIMEOUT);
+export const requestTimeout = createFactory(HttpStatusCode.REQUEST_TIMEOUT, RequestTimeoutError);
 
 /**
  * 409 Conflict
  * The request could not be processed because of conflict in the request.
  */
-export const conflict = createFactory(HttpStatusCode.CONFLICT);
+export const conflict = createFactory(HttpStatusCode.CONFLICT, ConflictError);
 
 /**
  * 410 Gone
  * The resource requested is no longer available and will not be available again.
  */
-export const gone = createFactory(HttpStatusCode.GONE);
+export const gone = createFactory(HttpStatusCode.GONE, GoneError);
 
 /**
  * 411 Length Required
  * The request did not specify the length of its content.
  */
-export const lengthRequired = createFactory(HttpStatusCode.LENGTH_REQUIRED);
+export const lengthRequired = createFactory(HttpStatusCode.LENGTH_REQUIRED, LengthRequiredError);
 
 /**
  * 412 Precondition Failed
  * The server does not meet one of the preconditions specified in the request.
  */
-export const preconditionFailed = createFactory(HttpStatusCode.PRECONDITION_FAILED);
+export const preconditionFailed = createFactory(
+  HttpStatusCode.PRECONDITION_FAILED,
+  PreconditionFailedError
+);
 
 /**
  * 413 Payload Too Large
  * The request is larger than the server is willing or able to process.
+ * Accepts `limit` (bytes) to report the maximum size in `details`.
  */
-export const payloadTooLarge = createFactory(HttpStatusCode.PAYLOAD_TOO_LARGE);
+export const payloadTooLarge = createTypedFactory(
+  PayloadTooLargeError,
+  ['limit'],
+  payloadTooLargeMetadata
+);
 
 /**
  * 414 URI Too Long
  * The URI provided was too long for the server to process.
  */
-export const uriTooLong = createFactory(HttpStatusCode.URI_TOO_LONG);
+export const uriTooLong = createFactory(HttpStatusCode.URI_TOO_LONG, UriTooLongError);
 
 /**
  * 415 Unsupported Media Type
  * The request entity has a media type which the server or resource does not support.
  */
-export const unsupportedMediaType = createFactory(HttpStatusCode.UNSUPPORTED_MEDIA_TYPE);
+export const unsupportedMediaType = createFactory(
+  HttpStatusCode.UNSUPPORTED_MEDIA_TYPE,
+  UnsupportedMediaTypeError
+);
 
 /**
  * 416 Range Not Satisfiable
  * The client has asked for a portion of the file, but the server cannot supply that portion.
  */
-export const rangeNotSatisfiable = createFactory(HttpStatusCode.RANGE_NOT_SATISFIABLE);
+export const rangeNotSatisfiable = createFactory(
+  HttpStatusCode.RANGE_NOT_SATISFIABLE,
+  RangeNotSatisfiableError
+);
 
 /**
  * 417 Expectation Failed
  * The server cannot meet the requirements of the Expect request-header field.
  */
-export const expectationFailed = createFactory(HttpStatusCode.EXPECTATION_FAILED);
+export const expectationFailed = createFactory(
+  HttpStatusCode.EXPECTATION_FAILED,
+  ExpectationFailedError
+);
 
 /**
  * 418 I'm a Teapot
  * Any attempt to brew coffee with a teapot should result in the error code "418 I'm a teapot".
  */
-export const imATeapot = createFactory(HttpStatusCode.IM_A_TEAPOT);
+export const imATeapot = createFactory(HttpStatusCode.IM_A_TEAPOT, ImATeapotError);
 
 /**
  * 421 Misdirected Request
  * The request was directed at a server that is not able to produce a response.
  */
-export const misdirectedRequest = createFactory(HttpStatusCode.MISDIRECTED_REQUEST);
+export const misdirectedRequest = createFactory(
+  HttpStatusCode.MISDIRECTED_REQUEST,
+  MisdirectedRequestError
+);
 
 /**
  * 422 Unprocessable Entity
  * The request was well-formed but was unable to be followed due to semantic errors.
  */
-export const unprocessableEntity = createFactory(HttpStatusCode.UNPROCESSABLE_ENTITY);
+export const unprocessableEntity = createFactory(
+  HttpStatusCode.UNPROCESSABLE_ENTITY,
+  UnprocessableEntityError
+);
 
 /**
  * 423 Locked
  * The resource that is being accessed is locked.
  */
-export const locked = createFactory(HttpStatusCode.LOCKED);
+export const locked = createFactory(HttpStatusCode.LOCKED, LockedError);
 
 /**
  * 424 Failed Dependency
  * The request failed due to failure of a previous request.
  */
-export const failedDependency = createFactory(HttpStatusCode.FAILED_DEPENDENCY);
+export const failedDependency = createFactory(
+  HttpStatusCode.FAILED_DEPENDENCY,
+  FailedDependencyError
+);
 
 /**
  * 425 Too Early
  * The server is unwilling to risk processing a request that might be replayed.
  */
-export const tooEarly = createFactory(HttpStatusCode.TOO_EARLY);
+export const tooEarly = createFactory(HttpStatusCode.TOO_EARLY, TooEarlyError);
 
 /**
  * 426 Upgrade Required
  * The client should switch to a different protocol.
  */
-export const upgradeRequired = createFactory(HttpStatusCode.UPGRADE_REQUIRED);
+export const upgradeRequired = createFactory(HttpStatusCode.UPGRADE_REQUIRED, UpgradeRequiredError);
 
 /**
  * 428 Precondition Required
  * The origin server requires the request to be conditional.
  */
-export const preconditionRequired = createFactory(HttpStatusCode.PRECONDITION_REQUIRED);
+export const preconditionRequired = createFactory(
+  HttpStatusCode.PRECONDITION_REQUIRED,
+  PreconditionRequiredError
+);
 
 /**
  * 429 Too Many Requests
  * The user has sent too many requests in a given amount of time.
+ * Accepts `retryAfter` to set the `Retry-After` header.
  */
-export const tooManyRequests = createFactory(HttpStatusCode.TOO_MANY_REQUESTS);
+export const tooManyRequests = createTypedFactory(
+  TooManyRequestsError,
+  ['retryAfter'],
+  retryAfterMetadata
+);
 
 /**
  * 431 Request Header Fields Too Large
@@ -337,7 +549,8 @@ export const tooManyRequests = createFactory(HttpStatusCode.TOO_MANY_REQUESTS);
  * or all the header fields collectively, are too large.
  */
 export const requestHeaderFieldsTooLarge = createFactory(
-  HttpStatusCode.REQUEST_HEADER_FIELDS_TOO_LARGE
+  HttpStatusCode.REQUEST_HEADER_FIELDS_TOO_LARGE,
+  RequestHeaderFieldsTooLargeError
 );
 
 /**
@@ -345,7 +558,8 @@ export const requestHeaderFieldsTooLarge = createFactory(
  * A server operator has received a legal demand to deny access to a resource or to a set of resources.
  */
 export const unavailableForLegalReasons = createFactory(
-  HttpStatusCode.UNAVAILABLE_FOR_LEGAL_REASONS
+  HttpStatusCode.UNAVAILABLE_FOR_LEGAL_REASONS,
+  UnavailableForLegalReasonsError
 );
 
 // ============================================================================
@@ -356,66 +570,120 @@ export const unavailableForLegalReasons = createFactory(
  * 500 Internal Server Error
  * A generic error message when an unexpected condition was encountered.
  */
-export const internalServerError = createFactory(HttpStatusCode.INTERNAL_SERVER_ERROR);
+export const internalServerError = createFactory(
+  HttpStatusCode.INTERNAL_SERVER_ERROR,
+  InternalServerError
+);
 
 /**
  * 501 Not Implemented
  * The server either does not recognize the request method, or it lacks the ability to fulfill the request.
  */
-export const notImplemented = createFactory(HttpStatusCode.NOT_IMPLEMENTED);
+export const notImplemented = createFactory(HttpStatusCode.NOT_IMPLEMENTED, NotImplementedError);
 
 /**
  * 502 Bad Gateway
  * The server was acting as a gateway or proxy and received an invalid response from the upstream server.
  */
-export const badGateway = createFactory(HttpStatusCode.BAD_GATEWAY);
+export const badGateway = createFactory(HttpStatusCode.BAD_GATEWAY, BadGatewayError);
 
 /**
  * 503 Service Unavailable
  * The server is currently unavailable (overloaded or down for maintenance).
+ * Accepts `retryAfter` to set the `Retry-After` header.
  */
-export const serviceUnavailable = createFactory(HttpStatusCode.SERVICE_UNAVAILABLE);
+export const serviceUnavailable = createTypedFactory(
+  ServiceUnavailableError,
+  ['retryAfter'],
+  retryAfterMetadata
+);
 
 /**
  * 504 Gateway Timeout
  * The server was acting as a gateway or proxy and did not receive a timely response.
  */
-export const gatewayTimeout = createFactory(HttpStatusCode.GATEWAY_TIMEOUT);
+export const gatewayTimeout = createFactory(HttpStatusCode.GATEWAY_TIMEOUT, GatewayTimeoutError);
 
 /**
  * 505 HTTP Version Not Supported
  * The server does not support the HTTP protocol version used in the request.
  */
-export const httpVersionNotSupported = createFactory(HttpStatusCode.HTTP_VERSION_NOT_SUPPORTED);
+export const httpVersionNotSupported = createFactory(
+  HttpStatusCode.HTTP_VERSION_NOT_SUPPORTED,
+  HttpVersionNotSupportedError
+);
 
 /**
  * 506 Variant Also Negotiates
  * Transparent content negotiation for the request results in a circular reference.
  */
-export const variantAlsoNegotiates = createFactory(HttpStatusCode.VARIANT_ALSO_NEGOTIATES);
+export const variantAlsoNegotiates = createFactory(
+  HttpStatusCode.VARIANT_ALSO_NEGOTIATES,
+  VariantAlsoNegotiatesError
+);
 
 /**
  * 507 Insufficient Storage
  * The server is unable to store the representation needed to complete the request.
  */
-export const insufficientStorage = createFactory(HttpStatusCode.INSUFFICIENT_STORAGE);
+export const insufficientStorage = createFactory(
+  HttpStatusCode.INSUFFICIENT_STORAGE,
+  InsufficientStorageError
+);
 
 /**
  * 508 Loop Detected
  * The server detected an infinite loop while processing the request.
  */
-export const loopDetected = createFactory(HttpStatusCode.LOOP_DETECTED);
+export const loopDetected = createFactory(HttpStatusCode.LOOP_DETECTED, LoopDetectedError);
 
 /**
  * 510 Not Extended
  * Further extensions to the request are required for the server to fulfill it.
  */
-export const notExtended = createFactory(HttpStatusCode.NOT_EXTENDED);
+export const notExtended = createFactory(HttpStatusCode.NOT_EXTENDED, NotExtendedError);
 
 /**
  * 511 Network Authentication Required
  * The client needs to authenticate to gain network access.
  */
 export const networkAuthenticationRequired = createFactory(
-  HttpStatusCode.NETWORK_AUTHENTICATION_REQUIRED
+  HttpStatusCode.NETWORK_AUTHENTICATION_REQUIRED,
+  NetworkAuthenticationRequiredError
 );
+
+// ============================================================================
+// Dynamic
+// ============================================================================
+
+/**
+ * Creates an error for a status code known only at runtime
+ *
+ * Returns the status subclass (e.g. `NotFoundError`) for 4xx/5xx codes, a plain
+ * HttpError otherwise.
+ *
+ * @param status - HTTP status code
+ * @param message - Error message (defaults to the reason phrase)
+ * @param options - Error options
+ * @throws {RangeError} If the status is not an integer from 100 to 599
+ *
+ * @example
+ * ```ts
+ * const res = await fetch(url);
+ * if (!res.ok) throw obsidian.fromStatus(res.status);
+ * ```
+ */
+export function fromStatus<Status extends number, Code extends string = string, Details = unknown>(
+  status: Status,
+  message?: string,
+  options?: HttpErrorOptions<Code, Details>
+): HttpError<Status, Code, Details> {
+  if (!Number.isInteger(status) || status < 100 || status > 599) {
+    throw new RangeError(
+      `Invalid HTTP status code: ${status} (expected an integer from 100 to 599)`
+    );
+  }
+
+  const ErrorClass = statusErrorClasses[status] as StatusErrorClass<Status> | undefined;
+  return createFactory(status, ErrorClass)(message, options);
+}
@@ -0,0 +1,210 @@
+import { PROBLEM_JSON_CONTENT_TYPE } from './problem-details';
+import type { ErrorResponseFormat } from './types';
+
+/**
+ * Serializes error response bodies for one media type
+ */
+export interface ErrorFormatter {
+  /**
+   * Shape of the body passed to `serialize`
+   * (`json`: `HttpErrorJSON`, `problem`: Problem Details)
+   */
+  format: ErrorResponseFormat;
+
+  /**
+   * Converts the body to the response payload. Formatters without `serialize`
+   * send the body with the framework's JSON writer.
+   */
+  serialize?: (body: unknown) => string;
+}
+
+/**
+ * Formatter chosen for a request, with the media type it was registered under
+ */
+export interface NegotiatedFormatter extends ErrorFormatter {
+  mediaType: string;
+}
+
+/**
+ * Media type of the default `HttpErrorJSON` body
+ */
+export const JSON_CONTENT_TYPE = 'application/json';
+
+/**
+ * Registered formatters, keyed by lowercase media type (in registration order)
+ */
+const formatters = new Map<string, ErrorFormatter>();
+
+/**
+ * Registers (or replaces) the formatter for a media type
+ *
+ * Built-in formatters: `application/json`, `application/problem+json`,
+ * `text/plain`, `application/xml` and `text/xml`.
+ *
+ * @param mediaType - Media type selected through the `Accept` header
+ * @param formatter - Body shape and serializer
+ *
+ * @example
+ * ```ts
+ * registerFormatter('text/csv', {
+ *   format: 'json',
+ *   serialize: (body) => {
+ *     const { status, message } = body as HttpErrorJSON;
+ *     return `status,message\n${status},"${message}"`;
+ *   },
+ * });
+ * ```
+ */
+export function registerFormatter(mediaType: string, formatter: ErrorFormatter): void {
+  formatters.set(mediaType.toLowerCase(), formatter);
+}
+
+function getFormatter(mediaType: string): NegotiatedFormatter | undefined {
+  const formatter = formatters.get(mediaType.toLowerCase());
+  return formatter && { ...formatter, mediaType: mediaType.toLowerCase() };
+}
+
+/**
+ * Finds the formatter for a media range (`type/subtype`, `type/*` or `*\/*`),
+ * preferring the default media type among wildcard matches
+ */
+function matchRange(range: string, preferred: string): NegotiatedFormatter | undefined {
+  const [type, subtype] = range.split('/');
+
+  if (type === '*') {
+    return getFormatter(preferred);
+  }
+
+  if (subtype === '*') {
+    const candidates = [preferred, ...formatters.keys()];
+    const mediaType = candidates.find((candidate) => candidate.split('/')[0] === type);
+    return mediaType !== undefined ? getFormatter(mediaType) : undefined;
+  }
+
+  return getFormatter(range);
+}
+
+/**
+ * Picks the formatter for an `Accept` header
+ *
+ * Ranges are tried by descending quality (more specific first on ties). A missing
+ * header or `*\/*` selects the default media type. When nothing in `Accept` is
+ * registered, the default is used too, so error responses never turn into a 406.
+ *
+ * @param accept - `Accept` header value
+ * @param defaultMediaType - Media type used as fallback
+ * @returns Formatter with its media type
+ *
+ * @example
+ * ```ts
+ * selectFormatter('text/plain, application/json;q=0.5'); // text/plain formatter
+ * ```
+ */
+export function selectFormatter(
+  accept: string | undefined,
+  defaultMediaType: string = JSON_CONTENT_TYPE
+): NegotiatedFormatter {
+  const fallback =
+    getFormatter(defaultMediaType) ?? (getFormatter(JSON_CONTENT_TYPE) as NegotiatedFormatter);
+
+  if (!accept) {
+    return fallback;
+  }
+
+  const ranges = accept
+    .split(',')
+    .map((part) => {
+      const [range, ...parameters] = part.trim().split(';');
+      const quality = parameters
+        .map((parameter) => parameter.trim())
+        .find((parameter) => parameter.startsWith('q='));
+      const mediaRange = range.trim().toLowerCase();
+      const specificity = mediaRange === '*/*' ? 0 : mediaRange.endsWith('/*') ? 1 : 2;
+      return { range: mediaRange, q: quality ? Number(quality.slice(2)) : 1, specificity };
+    })
+    .filter(({ range, q }) => range.includes('/') && q > 0)
+    .sort((a, b) => b.q - a.q || b.specificity - a.specificity);
+
+  for (const { range } of ranges) {
+    const match = matchRange(range, fallback.mediaType);
+    if (match) {
+      return match;
+    }
+  }
+
+  return fallback;
+}
+
+/**
+ * Reads status, message and code from a `json` or `problem` body
+ */
+function readSummary(body: unknown): { status?: unknown; message?: unknown; code?: unknown } {
+  if (typeof body !== 'object' || body === null) {
+    return { message: body };
+  }
+
+  const { status, message, detail, code } = body as Record<string, unknown>;
+  return { status, message: message ?? detail, code };
+}
+
+/**
+ * `text/plain` serializer: `404 User not found` (followed by `code: ...` when set)
+ */
+function serializeText(body: unknown): string {
+  const { status, message, code } = readSummary(body);
+  const lines = [[status, message].filter((part) => part !== undefined).join(' ')];
+
+  if (code !== undefined) {
+    lines.push(`code: ${String(code)}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toXmlName(key: string): string {
+  const name = key.replace(/[^A-Za-z0-9_.-]/g, '_');
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+}
+
+function toXml(name: string, value: unknown): string {
+  const tag = toXmlName(name);
+
+  if (value === undefined || value === null) {
+    return `<${tag}/>`;
+  }
+
+  if (Array.isArray(value)) {
+    return `<${tag}>${value.map((item) => toXml('item', item)).join('')}</${tag}>`;
+  }
+
+  if (typeof value === 'object') {
+    const children = Object.entries(value as Record<string, unknown>)
+      .map(([key, child]) => toXml(key, child))
+      .join('');
+    return `<${tag}>${children}</${tag}>`;
+  }
+
+  return `<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
+
+/**
+ * XML serializer: the body members become child elements of `<error>`
+ */
+function serializeXml(body: unknown): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${toXml('error', body)}\n`;
+}
+
+registerFormatter(JSON_CONTENT_TYPE, { format: 'json' });
+registerFormatter(PROBLEM_JSON_CONTENT_TYPE, { format: 'problem' });
+registerFormatter('text/plain', { format: 'json', serialize: serializeText });
+registerFormatter('application/xml', { format: 'json', serialize: serializeXml });
+registerFormatter('text/xml', { format: 'json', serialize: serializeXml });
@@ -1,50 +1,167 @@
-import type { HttpErrorOptions, HttpErrorJSON } from './types';
+import type {
+  HttpErrorOptions,
+  HttpErrorJSON,
+  ProblemDetailsJSON,
+  ErrorResponseFormat,
+  MessageParams,
+} from './types';
 import { HttpStatusMessage } from './status-codes';
+import { formatMessage, getLocalizedStatusMessage, localizeMessage } from './i18n';
+import { isDevelopment } from './env';
+import type { StatusErrorClass } from './errors';
+import { generateId } from './id';
+import {
+  DEFAULT_PROBLEM_TYPE,
+  PROBLEM_JSON_CONTENT_TYPE,
+  isProblemDetails,
+} from './problem-details';
+
+/**
+ * Registry-wide brand shared by every copy of the package (CJS and ESM builds,
+ * duplicated installs), used by `isHttpError`
+ */
+const HTTP_ERROR_BRAND = Symbol.for('@periodic/obsidian.HttpError');
+
+/**
+ * Problem Details members that are not carried over as extension details
+ */
+const PROBLEM_MEMBERS = new Set([
+  'type',
+  'title',
+  'status',
+  'detail',
+  'instance',
+  'code',
+  'stack',
+  'causes',
+  'id',
+  'timestamp',
+  'requestId',
+]);
+
+/**
+ * HttpError subclass for each 4xx/5xx status code, registered by `errors.ts`
+ * (whose classes extend HttpError, so it cannot be imported here)
+ */
+let statusErrorClasses: Readonly<Partial<Record<number, StatusErrorClass>>> = {};
 
 /**
  * Base HTTP error class that extends native Error
- * 
+ *
+ * Generic over status, code and details, so a union of errors can be narrowed
+ * on `status` (or `code`) to get typed `details`.
+ *
+ * @typeParam Status - HTTP status code type
+ * @typeParam Code - Machine-readable error code type
+ * @typeParam Details - Error details type
+ *
  * @example
  * ```ts
- * throw new HttpError(404, 'User not found', { 
+ * throw new HttpError(404, 'User not found', {
  *   code: 'USER_NOT_FOUND',
  *   details: { userId: '123' }
  * });
  * ```
  */
-export class HttpError extends Error {
+export class HttpError<
+  Status extends number = number,
+  Code extends string = string,
+  Details = unknown,
+> extends Error {
   /**
    * HTTP status code (e.g., 404, 500)
    */
-  readonly status: number;
+  readonly status: Status;
 
   /**
    * Machine-readable error code (e.g., "USER_NOT_FOUND")
    */
-  readonly code?: string;
+  readonly code?: Code;
 
   /**
    * Additional error details
    */
-  readonly details?: unknown;
+  readonly details?: Details;
+
+  /**
+   * Problem type URI used in Problem Details output
+   */
+  readonly type?: string;
+
+  /**
+   * Problem occurrence URI used in Problem Details output
+   */
+  readonly instance?: string;
+
+  /**
+   * Response headers applied by error handlers before sending
+   */
+  readonly headers?: Record<string, string>;
+
+  /**
+   * Message template parameters, used again when the message is localized
+   */
+  readonly params?: MessageParams;
+
+  /**
+   * Whether the message and `details` may be sent to clients in production
+   */
+  readonly expose: boolean;
+
+  /**
+   * Details sent to clients instead of `details`
+   */
+  readonly publicDetails?: unknown;
+
+  /**
+   * Unique ID of this error, sent to clients to match reports with logs
+   */
+  readonly id: string;
+
+  /**
+   * ISO 8601 time the error was created
+   */
+  readonly timestamp: string;
 
   /**
    * Creates a new HTTP error
-   * 
+   *
    * @param status - HTTP status code
-   * @param message - Human-readable error message
+   * @param message - Human-readable error message, with optional `{name}` placeholders
    * @param options - Optional error metadata
    */
-  constructor(status: number, message: string, options?: HttpErrorOptions) {
-    super(message);
+  constructor(status: Status, message: string, options?: HttpErrorOptions<Code, Details>) {
+    super(
+      formatMessage(message, options?.params),
+      options?.cause !== undefined ? { cause: options.cause } : undefined
+    );
 
-    // Ensure proper prototype chain for instanceof checks
-    Object.setPrototypeOf(this, HttpError.prototype);
+    // Node.js only supports the Error `cause` option from 16.9
+    if (options?.cause !== undefined && !('cause' in this)) {
+      Object.defineProperty(this, 'cause', {
+        value: options.cause,
+        writable: true,
+        configurable: true,
+      });
+    }
+
+    // Ensure proper prototype chain for instanceof checks (including subclasses)
+    Object.setPrototypeOf(this, new.target.prototype);
 
+    // A literal name survives bundlers that rename classes (e.g. `class _HttpError`);
+    // subclasses (e.g. NotFoundError) declare their own
     this.name = 'HttpError';
     this.status = status;
     this.code = options?.code;
     this.details = options?.details;
+    this.type = options?.type;
+    this.instance = options?.instance;
+    this.headers = options?.headers;
+    this.params = options?.params;
+    this.expose = options?.expose ?? status < 500;
+    this.publicDetails = options?.publicDetails;
+    this.id = options?.id ?? generateId();
+    this.timestamp = options?.timestamp ?? new Date().toISOString();
 
     // Capture stack trace, excluding constructor call from stack
     if (Error.captureStackTrace) {
@@ -54,22 +171,65 @@ export class HttpError extends Error {
 
   /**
    * Serializes the error to a plain JSON object
-   * 
+   *
+   * Includes the internal message and `details` regardless of `expose`; error
+   * handlers send a public view instead.
+   *
    * @returns JSON representation without stack trace
-   * 
+   *
    * @example
    * ```ts
    * const error = new HttpError(404, 'Not found');
    * console.log(error.toJSON());
-   * // { status: 404, message: 'Not found' }
+   * // { status: 404, message: 'Not found', id: 'a3f1c2d4-...', timestamp: '2024-02-09T10:00:00.000Z' }
    * ```
    */
-  toJSON(): HttpErrorJSON {
-    const json: HttpErrorJSON = {
+  toJSON(): HttpErrorJSON<Status, Code, Details> {
+    const json: HttpErrorJSON<Status, Code, Details> = {
       status: this.status,
       message: this.message,
+      id: this.id,
+      timestamp: this.timestamp,
+    };
+
+    if (this.code !== undefined) {
+      json.code = this.code;
+    }
+
+    if (this.details !== undefined) {
+      json.details = this.details;
+    }
+
+    return json;
+  }
+
+  /**
+   * Serializes the error to an RFC 9457 Problem Details object
+   *
+   * `code`, `details`, `id` and `timestamp` are emitted as extension members.
+   *
+   * @returns Problem Details representation without stack trace
+   *
+   * @example
+   * ```ts
+   * const error = new HttpError(404, 'User not found', { code: 'USER_NOT_FOUND' });
+   * console.log(error.toProblemJSON());
+   * // { type: 'about:blank', title: 'Not Found', status: 404, detail: 'User not found',
+   * //   code: 'USER_NOT_FOUND', id: 'a3f1c2d4-...', timestamp: '2024-02-09T10:00:00.000Z' }
+   * ```
+   */
+  toProblemJSON(): ProblemDetailsJSON {
+    const json: ProblemDetailsJSON = {
+      type: this.type ?? DEFAULT_PROBLEM_TYPE,
+      title: HttpError.getDefaultMessage(this.status),
+      status: this.status,
+      detail: this.message,
     };
 
+    if (this.instance !== undefined) {
+      json.instance = this.instance;
+    }
+
     if (this.code !== undefined) {
       json.code = this.code;
     }
@@ -78,16 +238,234 @@ export class HttpError extends Error {
       json.details = this.details;
     }
 
+    json.id = this.id;
+    json.timestamp = this.timestamp;
+
     return json;
   }
 
+  /**
+   * Converts the error to a web-standard Fetch API `Response`
+   *
+   * In production, errors that are not exposed are sent with their default
+   * message and without `details`, as error handlers do.
+   *
+   * @param format - Response body format
+   * @returns Response with the error status, headers and a JSON body
+   *
+   * @example
+   * ```ts
+   * export function GET() {
+   *   return obsidian.notFound('User not found').toResponse();
+   * }
+   * ```
+   */
+  toResponse(format: ErrorResponseFormat = 'json'): Response {
+    const problem = format === 'problem';
+    const publicError = toPublicError(this, isDevelopment());
+    const body = problem ? publicError.toProblemJSON() : publicError.toJSON();
+
+    return new Response(JSON.stringify(body), {
+      status: this.status,
+      headers: {
+        ...this.headers,
+        'Content-Type': problem ? PROBLEM_JSON_CONTENT_TYPE : 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Wraps a lower-level error in an HttpError, keeping it as the `cause`
+   *
+   * @param err - Original error (or any thrown value)
+   * @param status - HTTP status code
+   * @param message - Human-readable error message (defaults to the status message)
+   * @param options - Optional error metadata
+   * @returns New HttpError (or status subclass, e.g. `ServiceUnavailableError`) whose
+   * `cause` is `err`
+   *
+   * @example
+   * ```ts
+   * try {
+   *   await db.query(sql);
+   * } catch (err) {
+   *   throw HttpError.wrap(err, 503, 'Database unavailable', { code: 'DB_UNAVAILABLE' });
+   * }
+   * ```
+   */
+  static wrap<Status extends number = 500, Code extends string = string, Details = unknown>(
+    err: unknown,
+    status: Status = 500 as Status,
+    message?: string,
+    options?: Omit<HttpErrorOptions<Code, Details>, 'cause'>
+  ): HttpError<Status, Code, Details> {
+    return createStatusError(status, message, { ...options, cause: err }) as HttpError<
+      Status,
+      Code,
+      Details
+    >;
+  }
+
+  /**
+   * Rebuilds an HttpError from its serialized form
+   *
+   * Accepts the `toJSON()` shape as well as RFC 9457 Problem Details. For Problem
+   * Details without a `details` member, remaining extension members become `details`.
+   *
+   * @param json - Parsed error body
+   * @returns HttpError (or status subclass, e.g. `NotFoundError`) with the serialized
+   * status, message, code and details
+   * @throws {TypeError} If the value is not a valid serialized error
+   *
+   * @example
+   * ```ts
+   * const body = await response.json();
+   * throw HttpError.fromJSON(body);
+   * ```
+   */
+  static fromJSON(json: unknown): HttpError {
+    if (typeof json !== 'object' || json === null) {
+      throw new TypeError('Invalid HttpError JSON: expected an object');
+    }
+
+    const { status, code, id, timestamp } = json as Record<string, unknown>;
+    if (typeof status !== 'number' || !Number.isInteger(status) || status < 100 || status > 599) {
+      throw new TypeError('Invalid HttpError JSON: status must be an integer between 100 and 599');
+    }
+
+    if (code !== undefined && typeof code !== 'string') {
+      throw new TypeError('Invalid HttpError JSON: code must be a string');
+    }
+
+    // Keep the identity of the original error, when it was serialized with one
+    const identity = {
+      id: typeof id === 'string' ? id : undefined,
+      timestamp: typeof timestamp === 'string' ? timestamp : undefined,
+    };
+
+    const { message } = json as Partial<HttpErrorJSON>;
+    if (typeof message === 'string') {
+      const { details } = json as HttpErrorJSON;
+      return createStatusError(status, message, { code, details, ...identity });
+    }
+
+    if (isProblemDetails(json)) {
+      const { type, title, detail, instance } = json;
+      const extensions = Object.fromEntries(
+        Object.entries(json).filter(([key]) => !PROBLEM_MEMBERS.has(key))
+      );
+      const details =
+        'details' in extensions
+          ? extensions.details
+          : Object.keys(extensions).length > 0
+            ? extensions
+            : undefined;
+
+      return createStatusError(status, typeof detail === 'string' ? detail : title, {
+        code,
+        details,
+        type: typeof type === 'string' && type !== DEFAULT_PROBLEM_TYPE ? type : undefined,
+        instance: typeof instance === 'string' ? instance : undefined,
+        ...identity,
+      });
+    }
+
+    throw new TypeError('Invalid HttpError JSON: message must be a string');
+  }
+
   /**
    * Returns the default message for a given HTTP status code
-   * 
+   *
    * @param status - HTTP status code
+   * @param locale - Registered locale to translate the reason phrase into
    * @returns Default status message or 'Unknown Error'
    */
-  static getDefaultMessage(status: number): string {
-    return HttpStatusMessage[status] || 'Unknown Error';
+  static getDefaultMessage(status: number, locale?: string): string {
+    return (
+      (locale !== undefined ? getLocalizedStatusMessage(status, locale) : undefined) ||
+      HttpStatusMessage[status] ||
+      'Unknown Error'
+    );
   }
-}
\ No newline at end of file
+}
+
+Object.defineProperty(HttpError.prototype, HTTP_ERROR_BRAND, { value: true });
+
+/**
+ * Registers the HttpError subclasses used by `createStatusError`
+ * @internal
+ */
+export function registerStatusErrorClasses(
+  classes: Readonly<Partial<Record<number, StatusErrorClass>>>
+): void {
+  statusErrorClasses = classes;
+}
+
+/**
+ * Creates the status subclass (e.g. `NotFoundError`) for 4xx/5xx codes, a plain
+ * HttpError otherwise
+ * @internal
+ */
+export function createStatusError(
+  status: number,
+  message?: string,
+  options?: HttpErrorOptions
+): HttpError {
+  const ErrorClass = statusErrorClasses[status];
+  return ErrorClass
+    ? new ErrorClass(message || undefined, options)
+    : new HttpError(status, message || HttpError.getDefaultMessage(status), options);
+}
+
+/**
+ * Checks whether a value is an HttpError
+ *
+ * Unlike `instanceof HttpError`, this also recognizes errors created by another
+ * copy of `@periodic/obsidian` (e.g. both the CJS and ESM builds, or two versions
+ * in node_modules).
+ *
+ * @param value - Value to check
+ * @returns True if the value is an HttpError from any copy of the package
+ *
+ * @example
+ * ```ts
+ * if (isHttpError(err)) {
+ *   res.status(err.status).json(err.toJSON());
+ * }
+ * ```
+ */
+export function isHttpError(value: unknown): value is HttpError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Record<symbol, unknown>)[HTTP_ERROR_BRAND] === true
+  );
+}
+
+/**
+ * Returns the copy of an error that may be sent to clients
+ *
+ * `publicDetails` replace `details`. Unless `reveal` is true, errors that are not
+ * exposed get their default message and no `details`.
+ * @internal
+ */
+export function toPublicError(error: HttpError, reveal: boolean, locale?: string): HttpError {
+  const hidden = !reveal && !error.expose;
+
+  return createStatusError(
+    error.status,
+    hidden
+      ? HttpError.getDefaultMessage(error.status, locale)
+      : locale !== undefined
+        ? localizeMessage(error, locale)
+        : error.message,
+    {
+      code: error.code,
+      details: error.publicDetails ?? (hidden ? undefined : error.details),
+      type: error.type,
+      instance: error.instance,
+      id: error.id,
+      timestamp: error.timestamp,
+    }
+  );
+}
@@ -0,0 +1,150 @@
+import { HttpStatusMessage } from './status-codes';
+import type { HttpError } from './http-error';
+import type { MessageParams } from './types';
+
+/**
+ * Translations registered for a locale
+ */
+export interface LocaleMessages {
+  /**
+   * Message templates keyed by error code, e.g. `{ USER_NOT_FOUND: 'Benutzer {id} nicht gefunden' }`
+   */
+  messages?: Record<string, string>;
+
+  /**
+   * Reason phrases keyed by status code, e.g. `{ 404: 'Nicht gefunden' }`
+   */
+  statusMessages?: Partial<Record<number, string>>;
+}
+
+/**
+ * Registered locales, keyed by lowercase language tag
+ */
+const locales = new Map<string, { tag: string } & LocaleMessages>();
+
+/**
+ * Replaces `{name}` placeholders with the matching params
+ *
+ * Placeholders without a matching param are left untouched.
+ *
+ * @param template - Message template, e.g. `'User {id} not found'`
+ * @param params - Template parameters
+ * @returns Formatted message
+ *
+ * @example
+ * ```ts
+ * formatMessage('User {id} not found', { id: 42 }); // 'User 42 not found'
+ * ```
+ */
+export function formatMessage(template: string, params?: MessageParams): string {
+  if (!params) {
+    return template;
+  }
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(params, name) ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Registers translations for a locale, merging them with earlier registrations
+ *
+ * @param locale - Language tag, e.g. `'de'` or `'pt-BR'`
+ * @param messages - Error code templates and reason phrases
+ *
+ * @example
+ * ```ts
+ * registerLocale('de', {
+ *   messages: { USER_NOT_FOUND: 'Benutzer {id} nicht gefunden' },
+ *   statusMessages: { 404: 'Nicht gefunden', 500: 'Interner Serverfehler' },
+ * });
+ * ```
+ */
+export function registerLocale(locale: string, messages: LocaleMessages): void {
+  const key = locale.toLowerCase();
+  const existing = locales.get(key);
+
+  locales.set(key, {
+    tag: locale,
+    messages: { ...existing?.messages, ...messages.messages },
+    statusMessages: { ...existing?.statusMessages, ...messages.statusMessages },
+  });
+}
+
+/**
+ * Picks the registered locale that best matches an `Accept-Language` header
+ *
+ * Tags are tried by descending quality; a regional tag (`de-AT`) falls back to
+ * its language (`de`).
+ *
+ * @param acceptLanguage - `Accept-Language` header value
+ * @returns Registered locale, or undefined when none matches
+ *
+ * @example
+ * ```ts
+ * negotiateLocale('de-AT,de;q=0.9,en;q=0.8'); // 'de' (if registered)
+ * ```
+ */
+export function negotiateLocale(acceptLanguage: string | undefined): string | undefined {
+  if (!acceptLanguage || locales.size === 0) {
+    return undefined;
+  }
+
+  const ranges = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag, ...attributes] = part.trim().split(';');
+      const quality = attributes
+        .map((attribute) => attribute.trim())
+        .find((attribute) => attribute.startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), q: quality ? Number(quality.slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranges) {
+    const match = locales.get(tag) ?? locales.get(tag.split('-')[0]);
+    if (match) {
+      return match.tag;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the reason phrase registered for a status in a locale
+ * @internal
+ */
+export function getLocalizedStatusMessage(status: number, locale: string): string | undefined {
+  return locales.get(locale.toLowerCase())?.statusMessages?.[status];
+}
+
+/**
+ * Returns the message of an error in a locale
+ *
+ * Uses the template registered for the error `code` (formatted with the error
+ * `params`), or the translated reason phrase when the error has its default
+ * message. Otherwise the message is returned unchanged.
+ *
+ * @param error - Error to translate
+ * @param locale - Registered locale
+ * @returns Localized message
+ */
+export function localizeMessage(error: HttpError, locale: string): string {
+  const catalog = locales.get(locale.toLowerCase());
+  if (!catalog) {
+    return error.message;
+  }
+
+  const template = error.code !== undefined ? catalog.messages?.[error.code] : undefined;
+  if (template !== undefined) {
+    return formatMessage(template, error.params);
+  }
+
+  if (error.message === HttpStatusMessage[error.status]) {
+    return catalog.statusMessages?.[error.status] ?? error.message;
+  }
+
+  return error.message;
+}
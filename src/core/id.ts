@@ -0,0 +1,66 @@
+/**
+ * Longest accepted incoming `X-Request-Id`
+ */
+const MAX_REQUEST_ID_LENGTH = 200;
+
+/**
+ * Characters accepted in an incoming `X-Request-Id` (UUIDs, ULIDs, base64, ...)
+ */
+const REQUEST_ID_PATTERN = /^[\w.:@/+=-]+$/;
+
+/**
+ * W3C Trace Context `traceparent`: version-traceid-parentid-flags
+ */
+const TRACEPARENT_PATTERN = /^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-[\da-f]{2}$/;
+
+/**
+ * Generates a random UUID (v4)
+ *
+ * Uses Web Crypto where available (Node.js 19+, browsers, edge runtimes).
+ *
+ * @returns Random identifier
+ */
+export function generateId(): string {
+  const { crypto } = globalThis as { crypto?: { randomUUID?: () => string } };
+  if (crypto?.randomUUID) {
+    return crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Resolves the correlation ID of a request: the incoming `X-Request-Id`, the
+ * trace ID of a `traceparent` header, or a new ID
+ *
+ * Invalid `X-Request-Id` values (too long, unexpected characters) are ignored.
+ *
+ * @param requestId - `X-Request-Id` header value
+ * @param traceparent - `traceparent` header value
+ * @returns Request ID
+ *
+ * @example
+ * ```ts
+ * resolveRequestId(undefined, '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+ * // '4bf92f3577b34da6a3ce929d0e0e4736'
+ * ```
+ */
+export function resolveRequestId(
+  requestId: string | undefined,
+  traceparent: string | undefined
+): string {
+  const incoming = requestId?.trim();
+  if (incoming && incoming.length <= MAX_REQUEST_ID_LENGTH && REQUEST_ID_PATTERN.test(incoming)) {
+    return incoming;
+  }
+
+  const traceId = traceparent?.trim().toLowerCase().match(TRACEPARENT_PATTERN)?.[1];
+  if (traceId && !/^0+$/.test(traceId)) {
+    return traceId;
+  }
+
+  return generateId();
+}
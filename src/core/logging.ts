@@ -0,0 +1,205 @@
+import { toKnownHttpError } from './normalize';
+import { serializeCauseChain } from './cause';
+import type { SerializedCause } from './types';
+
+/**
+ * Log level used for an error: `warn` for 4xx (and below), `error` for 5xx
+ */
+export type ErrorLogLevel = 'warn' | 'error';
+
+/**
+ * Structured record passed to a `StructuredLogger`
+ */
+export interface ErrorLogRecord {
+  level: ErrorLogLevel;
+  message: string;
+  status: number;
+  code?: string;
+  name?: string;
+  /** `HttpError` ID, also sent in the response body */
+  id?: string;
+  requestId?: string;
+  method?: string;
+  url?: string;
+  /** Time since the request started, in milliseconds */
+  durationMs?: number;
+  causes?: SerializedCause[];
+  stack?: string;
+  /** Number of identical errors dropped by rate limiting since the last record */
+  suppressed?: number;
+}
+
+/**
+ * Fields of a log record, without the level (which selects the logger method)
+ * and the message (passed separately)
+ */
+export type ErrorLogFields = Omit<ErrorLogRecord, 'level' | 'message'>;
+
+/**
+ * Logger with `warn` and `error` methods taking the fields, then the message
+ *
+ * pino and bunyan loggers can be passed as is. Other loggers (e.g. winston) can be
+ * adapted: `{ warn: (fields, message) => logger.warn(message, fields), ... }`.
+ */
+export interface StructuredLogger {
+  warn(fields: ErrorLogFields, message: string): unknown;
+  error(fields: ErrorLogFields, message: string): unknown;
+}
+
+/**
+ * Request information added to log records
+ */
+export interface ErrorLogContext {
+  /** ID logged for errors that are not HttpErrors */
+  id?: string;
+  requestId?: string;
+  method?: string;
+  url?: string;
+  durationMs?: number;
+}
+
+/**
+ * Rate limiting of identical errors (same status, code and message)
+ */
+export interface ErrorLogRateLimit {
+  /**
+   * Length of the window in milliseconds
+   */
+  windowMs: number;
+
+  /**
+   * Records logged per window for each distinct error
+   * @default 1
+   */
+  max?: number;
+}
+
+/**
+ * Builds the structured log record of an error
+ *
+ * @param thrown - Value caught by the error handler
+ * @param context - Request ID, method, URL and duration
+ * @returns Log record with level set from the status class
+ */
+export function createErrorLogRecord(
+  thrown: unknown,
+  context: ErrorLogContext = {}
+): ErrorLogRecord {
+  const httpError = toKnownHttpError(thrown);
+  const err = thrown instanceof Error ? thrown : new Error(String(thrown));
+  const status = httpError?.status ?? 500;
+  const record: ErrorLogRecord = {
+    level: status >= 500 ? 'error' : 'warn',
+    message: err.message,
+    status,
+    name: err.name,
+  };
+
+  if (httpError?.code !== undefined) {
+    record.code = httpError.code;
+  }
+
+  const id = httpError?.id ?? context.id;
+  if (id !== undefined) {
+    record.id = id;
+  }
+
+  if (context.requestId !== undefined) {
+    record.requestId = context.requestId;
+  }
+
+  if (context.method !== undefined) {
+    record.method = context.method;
+  }
+
+  if (context.url !== undefined) {
+    record.url = context.url;
+  }
+
+  if (context.durationMs !== undefined) {
+    record.durationMs = context.durationMs;
+  }
+
+  const causes = serializeCauseChain(err);
+  if (causes.length > 0) {
+    record.causes = causes;
+  }
+
+  if (err.stack !== undefined) {
+    record.stack = err.stack;
+  }
+
+  return record;
+}
+
+/**
+ * Creates a function that sends error records to a structured logger,
+ * optionally rate limiting identical errors
+ *
+ * @param logger - pino, bunyan or any `StructuredLogger`
+ * @param rateLimit - Rate limiting of identical errors
+ * @returns Function logging a record (or counting it as suppressed) with
+ * `logger[record.level](fields, record.message)`
+ */
+export function createErrorLogger(
+  logger: StructuredLogger,
+  rateLimit?: ErrorLogRateLimit
+): (record: ErrorLogRecord) => void {
+  const windows = new Map<string, { start: number; count: number; suppressed: number }>();
+
+  return (record) => {
+    if (rateLimit) {
+      const key = `${record.status}:${record.code ?? ''}:${record.message}`;
+      const now = Date.now();
+      let window = windows.get(key);
+
+      if (!window || now - window.start >= rateLimit.windowMs) {
+        // Drop expired windows so the map does not grow with old errors
+        for (const [existingKey, existing] of windows) {
+          if (now - existing.start >= rateLimit.windowMs) {
+            windows.delete(existingKey);
+          }
+        }
+        window = { start: now, count: 0, suppressed: window?.suppressed ?? 0 };
+        windows.set(key, window);
+      }
+
+      if (window.count >= (rateLimit.max ?? 1)) {
+        window.suppressed += 1;
+        return;
+      }
+
+      window.count += 1;
+      if (window.suppressed > 0) {
+        record = { ...record, suppressed: window.suppressed };
+        window.suppressed = 0;
+      }
+    }
+
+    // pino and bunyan add their own `level` and `msg`, so neither is sent as a field
+    const { level, message, ...fields } = record;
+    logger[level](fields, message);
+  };
+}
+
+/**
+ * Request start times recorded by timing middleware
+ */
+const requestStarts = new WeakMap<object, number>();
+
+/**
+ * Records the start time of a request, used for `durationMs`
+ * @internal
+ */
+export function markRequestStart(request: object): void {
+  requestStarts.set(request, Date.now());
+}
+
+/**
+ * Returns the time elapsed since `markRequestStart`, if it was called
+ * @internal
+ */
+export function getRequestDuration(request: object): number | undefined {
+  const start = requestStarts.get(request);
+  return start !== undefined ? Date.now() - start : undefined;
+}
@@ -0,0 +1,148 @@
+import { toKnownHttpError } from './normalize';
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Labels of the error counter
+ */
+export interface ErrorMetricLabels {
+  status: string;
+  /** `4xx` or `5xx` */
+  statusClass: string;
+  /** Error code, empty when the error has none */
+  code: string;
+  /** Route pattern (e.g. `/users/:id`), empty when unknown */
+  route: string;
+}
+
+/**
+ * Current value of the counter for one label set
+ */
+export interface ErrorMetricSample {
+  labels: ErrorMetricLabels;
+  value: number;
+}
+
+/**
+ * Options for `createErrorMetrics`
+ */
+export interface ErrorMetricsOptions {
+  /**
+   * Counter name
+   * @default 'http_errors_total'
+   */
+  name?: string;
+
+  /**
+   * Counter description (`# HELP` line)
+   * @default 'HTTP errors handled by obsidian error handlers'
+   */
+  help?: string;
+}
+
+/**
+ * Error counter fed by the error handlers' `metrics` option
+ */
+export interface ErrorMetrics {
+  /**
+   * Counts a handled error
+   *
+   * @param thrown - Value caught by the error handler
+   * @param route - Route pattern, never the raw URL (to keep cardinality low)
+   */
+  record(thrown: unknown, route?: string): void;
+
+  /**
+   * Returns the current counter values
+   */
+  samples(): ErrorMetricSample[];
+
+  /**
+   * Returns the counter in Prometheus text exposition format
+   */
+  collect(): string;
+
+  /**
+   * Resets all counters
+   */
+  reset(): void;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Creates a Prometheus-style counter of handled errors, labeled by status,
+ * status class, code and route
+ *
+ * @param options - Counter name and description
+ * @returns Error metrics to pass to error handlers
+ *
+ * @example
+ * ```ts
+ * import { createErrorMetrics, errorHandler, metricsHandler } from '@periodic/obsidian';
+ *
+ * const metrics = createErrorMetrics();
+ *
+ * app.get('/metrics', metricsHandler(metrics));
+ * app.use(errorHandler({ metrics }));
+ *
+ * // Without Express
+ * const text = metrics.collect();
+ * // http_errors_total{status="404",status_class="4xx",code="USER_NOT_FOUND",route="/users/:id"} 3
+ * ```
+ */
+export function createErrorMetrics(options: ErrorMetricsOptions = {}): ErrorMetrics {
+  const { name = 'http_errors_total', help = 'HTTP errors handled by obsidian error handlers' } =
+    options;
+  const counters = new Map<string, ErrorMetricSample>();
+
+  return {
+    record(thrown, route = '') {
+      const httpError = toKnownHttpError(thrown);
+      const status = httpError?.status ?? 500;
+      const labels: ErrorMetricLabels = {
+        status: String(status),
+        statusClass: `${Math.floor(status / 100)}xx`,
+        code: httpError?.code ?? '',
+        route,
+      };
+      const key = [labels.status, labels.code, labels.route].join('\n');
+      const sample = counters.get(key);
+
+      if (sample) {
+        sample.value += 1;
+      } else {
+        counters.set(key, { labels, value: 1 });
+      }
+    },
+
+    samples() {
+      return [...counters.values()].map(({ labels, value }) => ({ labels: { ...labels }, value }));
+    },
+
+    collect() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} counter`];
+
+      for (const { labels, value } of counters.values()) {
+        const labelText = [
+          `status="${labels.status}"`,
+          `status_class="${labels.statusClass}"`,
+          `code="${escapeLabelValue(labels.code)}"`,
+          `route="${escapeLabelValue(labels.route)}"`,
+        ].join(',');
+        lines.push(`${name}{${labelText}} ${value}`);
+      }
+
+      return `${lines.join('\n')}\n`;
+    },
+
+    reset() {
+      counters.clear();
+    },
+  };
+}
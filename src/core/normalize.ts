@@ -0,0 +1,131 @@
+import { HttpError, isHttpError, createStatusError } from './http-error';
+
+/**
+ * Status for body-parser / raw-body error types
+ */
+const BODY_PARSER_STATUS: Record<string, number> = {
+  'entity.too.large': 413,
+  'entity.parse.failed': 400,
+  'entity.verify.failed': 403,
+  'encoding.unsupported': 415,
+  'charset.unsupported': 415,
+  'parameters.too.many': 413,
+  'request.aborted': 400,
+  'request.size.invalid': 400,
+};
+
+/**
+ * Status for Node.js system errors raised while talking to upstream services
+ */
+const SYSTEM_ERROR_STATUS: Record<string, number> = {
+  ECONNREFUSED: 502,
+  ECONNRESET: 502,
+  ENOTFOUND: 502,
+  EAI_AGAIN: 502,
+  EPIPE: 502,
+  ETIMEDOUT: 504,
+  ESOCKETTIMEDOUT: 504,
+};
+
+/**
+ * Properties commonly found on errors thrown by Node.js and HTTP libraries
+ */
+interface ErrorLike {
+  name?: unknown;
+  message?: unknown;
+  code?: unknown;
+  type?: unknown;
+  status?: unknown;
+  statusCode?: unknown;
+  expose?: unknown;
+}
+
+function isErrorStatus(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 400 && value <= 599;
+}
+
+/**
+ * Converts well-known failures into HttpErrors, returning undefined for
+ * anything that has no obvious HTTP meaning
+ *
+ * Used by the error handlers, which keep their own handling of unknown errors.
+ */
+export function toKnownHttpError(value: unknown): HttpError | undefined {
+  if (isHttpError(value)) {
+    return value;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  const { name, message, code, type, status, statusCode, expose } = value as ErrorLike;
+  const text = typeof message === 'string' ? message : '';
+
+  // body-parser / raw-body
+  if (typeof type === 'string' && Object.prototype.hasOwnProperty.call(BODY_PARSER_STATUS, type)) {
+    return createStatusError(BODY_PARSER_STATUS[type], text, {
+      code: type.toUpperCase().replace(/\./g, '_'),
+      cause: value,
+    });
+  }
+
+  // Node.js system errors (upstream connection failures)
+  if (typeof code === 'string' && Object.prototype.hasOwnProperty.call(SYSTEM_ERROR_STATUS, code)) {
+    return createStatusError(SYSTEM_ERROR_STATUS[code], '', { code, cause: value });
+  }
+
+  // Aborted operations (AbortController, AbortSignal.timeout)
+  if (name === 'TimeoutError') {
+    return createStatusError(504, '', { code: 'TIMEOUT', cause: value });
+  }
+
+  if (name === 'AbortError') {
+    return createStatusError(503, '', { code: 'ABORTED', cause: value });
+  }
+
+  // Invalid JSON in a request body: body parsers attach the raw `body`. Other JSON
+  // SyntaxErrors (config, cache, upstream responses) are server failures
+  if (value instanceof SyntaxError && /JSON/.test(text) && 'body' in value) {
+    return createStatusError(400, 'Invalid JSON', { code: 'INVALID_JSON', cause: value });
+  }
+
+  // http-errors style objects (Koa `ctx.throw`, `createError`) and plain objects
+  const errorStatus = isErrorStatus(status) ? status : statusCode;
+  if (isErrorStatus(errorStatus)) {
+    return createStatusError(errorStatus, text, {
+      code: typeof code === 'string' ? code : undefined,
+      cause: value,
+      expose: typeof expose === 'boolean' ? expose : undefined,
+    });
+  }
+
+  return undefined;
+}
+
+/**
+ * Converts any thrown value into an HttpError
+ *
+ * - HttpErrors are returned unchanged
+ * - body-parser errors keep their status (`entity.too.large` → 413, `entity.parse.failed` → 400)
+ * - Node.js connection errors become 502 (`ECONNREFUSED`, ...) or 504 (`ETIMEDOUT`)
+ * - `TimeoutError` becomes 504 and `AbortError` 503
+ * - JSON `SyntaxError`s carrying the raw request `body` (set by body parsers) become 400
+ * - errors and plain objects with a 4xx/5xx `status` or `statusCode` keep it (and `expose`)
+ * - anything else (including thrown strings) becomes a 500 with the value as `cause`
+ *
+ * @param value - Thrown value
+ * @returns HttpError describing the failure
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await callUpstream();
+ * } catch (err) {
+ *   const error = normalizeError(err); // e.g. 502 for ECONNREFUSED
+ * }
+ * ```
+ */
+export function normalizeError(value: unknown): HttpError {
+  return toKnownHttpError(value) ?? HttpError.wrap(value);
+}
@@ -0,0 +1,26 @@
+import type { ProblemDetailsJSON } from './types';
+
+/**
+ * Media type for RFC 9457 Problem Details responses
+ */
+export const PROBLEM_JSON_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * Default problem type when no specific type URI is provided
+ */
+export const DEFAULT_PROBLEM_TYPE = 'about:blank';
+
+/**
+ * Checks whether a value has the RFC 9457 Problem Details shape
+ * (a numeric `status` plus a string `title` or `detail`)
+ *
+ * @param value - Value to check, e.g. a parsed response body
+ */
+export function isProblemDetails(value: unknown): value is ProblemDetailsJSON {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const { status, title, detail } = value as Record<string, unknown>;
+  return typeof status === 'number' && (typeof title === 'string' || typeof detail === 'string');
+}
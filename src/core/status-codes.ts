@@ -152,3 +152,150 @@ export const HttpStatusMessage: Record<number, string> = {
   510: 'Not Extended',
   511: 'Network Authentication Required',
 };
+
+/**
+ * Name of a status code in `HttpStatusCode`, e.g. `'NOT_FOUND'`
+ */
+export type HttpStatusKey = keyof typeof HttpStatusCode;
+
+/**
+ * Class of a status code
+ */
+export type HttpStatusClass = '1xx' | '2xx' | '3xx' | '4xx' | '5xx';
+
+/**
+ * Metadata of a status code
+ */
+export interface HttpStatusMetadata {
+  status: number;
+  key: HttpStatusKey;
+  message: string;
+  class: HttpStatusClass;
+  /** Specification defining the status, e.g. `'RFC 9110'` */
+  rfc: string;
+  /** Whether repeating the request may succeed (timeouts, rate limits, unavailable upstreams) */
+  retryable: boolean;
+  /** Whether the response is heuristically cacheable (RFC 9110 section 15.1) */
+  cacheable: boolean;
+  /** Whether the response may have content */
+  bodyAllowed: boolean;
+}
+
+/**
+ * Statuses not defined by RFC 9110
+ */
+const RFC_REFERENCES: Partial<Record<number, string>> = {
+  102: 'RFC 2518',
+  103: 'RFC 8297',
+  207: 'RFC 4918',
+  208: 'RFC 5842',
+  226: 'RFC 3229',
+  418: 'RFC 2324',
+  423: 'RFC 4918',
+  424: 'RFC 4918',
+  425: 'RFC 8470',
+  428: 'RFC 6585',
+  429: 'RFC 6585',
+  431: 'RFC 6585',
+  451: 'RFC 7725',
+  506: 'RFC 2295',
+  507: 'RFC 4918',
+  508: 'RFC 5842',
+  510: 'RFC 2774',
+  511: 'RFC 6585',
+};
+
+const RETRYABLE_STATUSES = new Set<number>([408, 425, 429, 500, 502, 503, 504]);
+
+const CACHEABLE_STATUSES = new Set<number>([
+  200, 203, 204, 206, 300, 301, 308, 404, 405, 410, 414, 501,
+]);
+
+/**
+ * Statuses whose responses never have content (in addition to 1xx)
+ */
+const NO_BODY_STATUSES = new Set<number>([204, 205, 304]);
+
+/**
+ * Returns the class of a status code
+ *
+ * @param status - HTTP status code
+ * @returns `'1xx'` to `'5xx'`, or undefined outside 100-599
+ *
+ * @example
+ * ```ts
+ * statusClass(404); // '4xx'
+ * ```
+ */
+export function statusClass(status: number): HttpStatusClass | undefined {
+  if (!Number.isInteger(status) || status < 100 || status > 599) {
+    return undefined;
+  }
+
+  return `${Math.floor(status / 100)}xx` as HttpStatusClass;
+}
+
+/**
+ * Metadata of every status code in `HttpStatusCode`, keyed by status code
+ *
+ * @example
+ * ```ts
+ * HttpStatusInfo[503];
+ * // { status: 503, key: 'SERVICE_UNAVAILABLE', message: 'Service Unavailable', class: '5xx',
+ * //   rfc: 'RFC 9110', retryable: true, cacheable: false, bodyAllowed: true }
+ * ```
+ */
+export const HttpStatusInfo: Readonly<Partial<Record<number, Readonly<HttpStatusMetadata>>>> =
+  Object.fromEntries(
+    (Object.entries(HttpStatusCode) as [HttpStatusKey, number][]).map(([key, status]) => [
+      status,
+      Object.freeze({
+        status,
+        key,
+        message: HttpStatusMessage[status],
+        class: statusClass(status) as HttpStatusClass,
+        rfc: RFC_REFERENCES[status] ?? 'RFC 9110',
+        retryable: RETRYABLE_STATUSES.has(status),
+        cacheable: CACHEABLE_STATUSES.has(status),
+        bodyAllowed: status >= 200 && !NO_BODY_STATUSES.has(status),
+      }),
+    ])
+  );
+
+/**
+ * Checks whether a status code is a client error (4xx)
+ */
+export function isClientError(status: number): boolean {
+  return statusClass(status) === '4xx';
+}
+
+/**
+ * Checks whether a status code is a server error (5xx)
+ */
+export function isServerError(status: number): boolean {
+  return statusClass(status) === '5xx';
+}
+
+/**
+ * Checks whether a request failing with a status code may succeed when retried
+ *
+ * True for 408, 425, 429, 500, 502, 503 and 504.
+ */
+export function isRetryable(status: number): boolean {
+  return HttpStatusInfo[status]?.retryable ?? false;
+}
+
+/**
+ * Returns the `HttpStatusCode` key of a status code
+ *
+ * @param status - HTTP status code
+ * @returns Key, or undefined for unregistered codes
+ *
+ * @example
+ * ```ts
+ * statusKey(404); // 'NOT_FOUND'
+ * ```
+ */
+export function statusKey(status: number): HttpStatusKey | undefined {
+  return HttpStatusInfo[status]?.key;
+}
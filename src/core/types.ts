@@ -1,28 +1,131 @@
+/**
+ * Parameters interpolated into `{name}` placeholders of error messages
+ */
+export type MessageParams = Record<string, string | number | boolean>;
+
 /**
  * Options for creating an HTTP error
+ *
+ * @typeParam Code - Machine-readable error code type
+ * @typeParam Details - Error details type
  */
-export interface HttpErrorOptions {
+export interface HttpErrorOptions<Code extends string = string, Details = unknown> {
   /**
    * Machine-readable error code (e.g., "USER_NOT_FOUND", "VALIDATION_FAILED")
    */
-  code?: string;
+  code?: Code;
 
   /**
    * Additional error details (e.g., validation errors, debug info)
    */
-  details?: unknown;
+  details?: Details;
+
+  /**
+   * URI reference identifying the problem type (RFC 9457 `type` member)
+   * @default 'about:blank'
+   */
+  type?: string;
+
+  /**
+   * URI reference identifying this specific occurrence of the problem (RFC 9457 `instance` member)
+   */
+  instance?: string;
+
+  /**
+   * Underlying error that caused this one (passed to the native `Error` cause)
+   */
+  cause?: unknown;
+
+  /**
+   * Response headers sent with the error (e.g., `Retry-After`, `WWW-Authenticate`, `Allow`)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Values for `{name}` placeholders in the message (e.g., `'User {id} not found'`),
+   * also used by locale templates
+   */
+  params?: MessageParams;
+
+  /**
+   * Whether the message and `details` may be sent to clients in production
+   * @default true for 4xx, false for 5xx
+   */
+  expose?: boolean;
+
+  /**
+   * Details always safe to send to clients. When set, error handlers send them
+   * as `details` instead of the internal `details`
+   */
+  publicDetails?: unknown;
+
+  /**
+   * Unique error ID (used when rebuilding a serialized error)
+   * @default a random UUID
+   */
+  id?: string;
+
+  /**
+   * ISO 8601 time the error occurred (used when rebuilding a serialized error)
+   * @default the construction time
+   */
+  timestamp?: string;
 }
 
 /**
  * JSON representation of an HTTP error
+ *
+ * @typeParam Status - HTTP status code type
+ * @typeParam Code - Machine-readable error code type
+ * @typeParam Details - Error details type
  */
-export interface HttpErrorJSON {
-  status: number;
+export interface HttpErrorJSON<
+  Status extends number = number,
+  Code extends string = string,
+  Details = unknown,
+> {
+  status: Status;
+  message: string;
+  code?: Code;
+  details?: Details;
+  id: string;
+  timestamp: string;
+}
+
+/**
+ * Serialized entry of an error cause chain
+ */
+export interface SerializedCause {
+  name?: string;
   message: string;
   code?: string;
-  details?: unknown;
+  stack?: string;
+}
+
+/**
+ * RFC 9457 Problem Details representation of an HTTP error
+ * (served as `application/problem+json`)
+ */
+export interface ProblemDetailsJSON {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+
+  /**
+   * Extension members
+   */
+  [extension: string]: unknown;
 }
 
+/**
+ * Response body format used by error handlers
+ * - `json`: the `HttpErrorJSON` shape (`application/json`)
+ * - `problem`: RFC 9457 Problem Details (`application/problem+json`)
+ */
+export type ErrorResponseFormat = 'json' | 'problem';
+
 /**
  * HTTP status codes type
  */
@@ -30,8 +133,91 @@ export type HttpStatusCode = number;
 
 /**
  * Error factory function type
+ *
+ * `code` and `details` types are inferred from the options passed.
+ */
+export type ErrorFactory<Status extends number = number> = <
+  Code extends string = string,
+  Details = unknown,
+>(
+  message?: string,
+  options?: HttpErrorOptions<Code, Details>
+) => HttpError<Status, Code, Details>;
+
+/**
+ * Error factory with status-specific options, callable with or without a message
+ */
+export interface TypedErrorFactory<Status extends number, O extends HttpErrorOptions> {
+  <Code extends string = string, Details = unknown>(
+    options: O & HttpErrorOptions<Code, Details>
+  ): HttpError<Status, Code, Details>;
+  <Code extends string = string, Details = unknown>(
+    message?: string,
+    options?: O & HttpErrorOptions<Code, Details>
+  ): HttpError<Status, Code, Details>;
+}
+
+/**
+ * Options for `Retry-After` aware factories (429, 503)
+ */
+export interface RetryAfterOptions extends HttpErrorOptions {
+  /**
+   * Seconds to wait, or the date after which to retry. Sets the `Retry-After` header
+   * and `details.retryAfter`
+   */
+  retryAfter?: number | Date;
+}
+
+/**
+ * Options for `tooManyRequests` (429)
+ */
+export type TooManyRequestsOptions = RetryAfterOptions;
+
+/**
+ * Options for `serviceUnavailable` (503)
+ */
+export type ServiceUnavailableOptions = RetryAfterOptions;
+
+/**
+ * Options for `methodNotAllowed` (405)
+ */
+export interface MethodNotAllowedOptions extends HttpErrorOptions {
+  /**
+   * Methods supported by the resource. Sets the `Allow` header and `details.allow`
+   */
+  allow?: string[];
+}
+
+/**
+ * Options for `unauthorized` (401)
+ */
+export interface UnauthorizedOptions extends HttpErrorOptions {
+  /**
+   * Authentication scheme for the `WWW-Authenticate` header
+   * @default 'Bearer' (when `realm` or `error` is set)
+   */
+  scheme?: string;
+
+  /**
+   * Protection space, sent as the `realm` auth-param
+   */
+  realm?: string;
+
+  /**
+   * Error code (e.g., RFC 6750 `invalid_token`), sent as the `error` auth-param
+   */
+  error?: string;
+}
+
+/**
+ * Options for `payloadTooLarge` (413)
  */
-export type ErrorFactory = (message?: string, options?: HttpErrorOptions) => HttpError;
+export interface PayloadTooLargeOptions extends HttpErrorOptions {
+  /**
+   * Maximum accepted payload size in bytes. Sets `details.limit`
+   */
+  limit?: number;
+}
 
 /**
  * Import HttpError from the core module
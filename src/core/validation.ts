@@ -0,0 +1,180 @@
+import { BadRequestError, UnprocessableEntityError } from './errors';
+
+/**
+ * Minimal Standard Schema v1 interface (https://standardschema.dev)
+ *
+ * Implemented by Zod, Valibot, ArkType and others, so any of them can be
+ * passed to `validateOrThrow` without obsidian depending on them.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+/**
+ * Result returned by a Standard Schema `validate` function
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * Issue reported by a Standard Schema validator
+ */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+/**
+ * Output type of a Standard Schema validator
+ */
+export type InferSchemaOutput<Schema extends StandardSchemaV1> = NonNullable<
+  Schema['~standard']['types']
+>['output'];
+
+/**
+ * Normalized validation issue sent in `details.issues`
+ */
+export interface ValidationIssue {
+  /** Location of the invalid value, e.g. `['body', 'email']` */
+  path: Array<string | number>;
+  message: string;
+  /** Validator-specific issue code (e.g. Zod's `invalid_type`), when available */
+  code?: string;
+}
+
+/**
+ * Details of errors thrown by `validateOrThrow`
+ */
+export interface ValidationErrorDetails {
+  issues: ValidationIssue[];
+}
+
+/**
+ * Options for `validateOrThrow` and the validation middleware
+ */
+export interface ValidateOptions {
+  /**
+   * Status of the thrown error
+   * @default 422
+   */
+  status?: 400 | 422;
+
+  /**
+   * Error message
+   * @default 'Validation failed'
+   */
+  message?: string;
+
+  /**
+   * Error code
+   * @default 'VALIDATION_FAILED'
+   */
+  code?: string;
+}
+
+/**
+ * Error thrown when validation fails
+ */
+export type ValidationError =
+  | BadRequestError<string, ValidationErrorDetails>
+  | UnprocessableEntityError<string, ValidationErrorDetails>;
+
+/**
+ * Outcome of running a schema, with issues already normalized
+ * @internal
+ */
+export type SchemaOutcome<Output> =
+  { value: Output; issues?: undefined } | { issues: ValidationIssue[] };
+
+function toPathKey(segment: PropertyKey | { readonly key: PropertyKey }): string | number {
+  const key = typeof segment === 'object' ? segment.key : segment;
+  return typeof key === 'number' ? key : String(key);
+}
+
+function toValidationIssue(
+  issue: StandardSchemaIssue,
+  prefix: Array<string | number>
+): ValidationIssue {
+  const path = [...prefix, ...(issue.path ?? []).map(toPathKey)];
+  // Zod and ArkType expose `code`, Valibot exposes `type`
+  const { code, type } = issue as { code?: unknown; type?: unknown };
+  const issueCode = typeof code === 'string' ? code : typeof type === 'string' ? type : undefined;
+
+  return issueCode === undefined
+    ? { path, message: issue.message }
+    : { path, message: issue.message, code: issueCode };
+}
+
+/**
+ * Runs a Standard Schema and normalizes its issues, prefixing their paths
+ * @internal
+ */
+export async function runSchema<Schema extends StandardSchemaV1>(
+  schema: Schema,
+  value: unknown,
+  prefix: Array<string | number> = []
+): Promise<SchemaOutcome<InferSchemaOutput<Schema>>> {
+  const result = await schema['~standard'].validate(value);
+
+  if (result.issues) {
+    return { issues: result.issues.map((issue) => toValidationIssue(issue, prefix)) };
+  }
+
+  return { value: result.value as InferSchemaOutput<Schema> };
+}
+
+/**
+ * Creates the error thrown for failed validation
+ * @internal
+ */
+export function createValidationError(
+  issues: ValidationIssue[],
+  options: ValidateOptions = {}
+): ValidationError {
+  const { status = 422, message = 'Validation failed', code = 'VALIDATION_FAILED' } = options;
+  const errorOptions = { code, details: { issues } };
+
+  return status === 400
+    ? new BadRequestError(message, errorOptions)
+    : new UnprocessableEntityError(message, errorOptions);
+}
+
+/**
+ * Validates a value with any Standard Schema v1 validator (Zod, Valibot, ArkType, ...)
+ * and returns the parsed output, or throws a 422 (or 400) with `details.issues`
+ *
+ * @param schema - Standard Schema validator
+ * @param value - Value to validate
+ * @param options - Status, message and code of the thrown error
+ * @returns Validated (and possibly transformed) value
+ *
+ * @example
+ * ```ts
+ * import { z } from 'zod';
+ * import { validateOrThrow } from '@periodic/obsidian';
+ *
+ * const user = await validateOrThrow(z.object({ email: z.string().email() }), req.body);
+ * // Throws 422: { details: { issues: [{ path: ['email'], message: 'Invalid email', code: 'invalid_string' }] } }
+ * ```
+ */
+export async function validateOrThrow<Schema extends StandardSchemaV1>(
+  schema: Schema,
+  value: unknown,
+  options?: ValidateOptions
+): Promise<InferSchemaOutput<Schema>> {
+  const outcome = await runSchema(schema, value);
+
+  if (outcome.issues) {
+    throw createValidationError(outcome.issues, options);
+  }
+
+  return outcome.value;
+}
@@ -1,13 +1,142 @@
 // Core exports
-export { HttpError } from './core/http-error';
-export { HttpStatusCode, HttpStatusMessage } from './core/status-codes';
+export { HttpError, isHttpError } from './core/http-error';
+export {
+  BadRequestError,
+  UnauthorizedError,
+  PaymentRequiredError,
+  ForbiddenError,
+  NotFoundError,
+  MethodNotAllowedError,
+  NotAcceptableError,
+  ProxyAuthenticationRequiredError,
+  RequestTimeoutError,
+  ConflictError,
+  GoneError,
+  LengthRequiredError,
+  PreconditionFailedError,
+  PayloadTooLargeError,
+  UriTooLongError,
+  UnsupportedMediaTypeError,
+  RangeNotSatisfiableError,
+  ExpectationFailedError,
+  ImATeapotError,
+  MisdirectedRequestError,
+  UnprocessableEntityError,
+  LockedError,
+  FailedDependencyError,
+  TooEarlyError,
+  UpgradeRequiredError,
+  PreconditionRequiredError,
+  TooManyRequestsError,
+  RequestHeaderFieldsTooLargeError,
+  UnavailableForLegalReasonsError,
+  InternalServerError,
+  NotImplementedError,
+  BadGatewayError,
+  ServiceUnavailableError,
+  GatewayTimeoutError,
+  HttpVersionNotSupportedError,
+  VariantAlsoNegotiatesError,
+  InsufficientStorageError,
+  LoopDetectedError,
+  NotExtendedError,
+  NetworkAuthenticationRequiredError,
+} from './core/errors';
+export type { StatusErrorClass } from './core/errors';
+export {
+  HttpStatusCode,
+  HttpStatusMessage,
+  HttpStatusInfo,
+  statusClass,
+  statusKey,
+  isClientError,
+  isServerError,
+  isRetryable,
+} from './core/status-codes';
+export type { HttpStatusKey, HttpStatusClass, HttpStatusMetadata } from './core/status-codes';
+export { PROBLEM_JSON_CONTENT_TYPE, isProblemDetails } from './core/problem-details';
+export { serializeCauseChain } from './core/cause';
+export { defineErrors } from './core/catalog';
+export { normalizeError } from './core/normalize';
+export { formatMessage, registerLocale, negotiateLocale, localizeMessage } from './core/i18n';
+export type { LocaleMessages } from './core/i18n';
+export { registerFormatter, selectFormatter } from './core/formatters';
+export type { ErrorFormatter, NegotiatedFormatter } from './core/formatters';
+export { generateId, resolveRequestId } from './core/id';
+export type { ErrorHandlerOptions } from './core/error-response';
+export { createErrorMetrics, PROMETHEUS_CONTENT_TYPE } from './core/metrics';
+export type {
+  ErrorMetrics,
+  ErrorMetricsOptions,
+  ErrorMetricLabels,
+  ErrorMetricSample,
+} from './core/metrics';
+export { createErrorLogRecord, createErrorLogger } from './core/logging';
+export type {
+  ErrorLogLevel,
+  ErrorLogRecord,
+  ErrorLogFields,
+  ErrorLogContext,
+  ErrorLogRateLimit,
+  StructuredLogger,
+} from './core/logging';
+export { validateOrThrow } from './core/validation';
+export type {
+  StandardSchemaV1,
+  StandardSchemaResult,
+  StandardSchemaIssue,
+  InferSchemaOutput,
+  ValidationIssue,
+  ValidationErrorDetails,
+  ValidateOptions,
+  ValidationError,
+} from './core/validation';
+export type {
+  ErrorDefinition,
+  ErrorCatalog,
+  CatalogErrorFactory,
+  CatalogErrorOptions,
+} from './core/catalog';
 
 // Type exports
-export type { HttpErrorOptions, HttpErrorJSON } from './core/types';
+export type {
+  MessageParams,
+  HttpErrorOptions,
+  HttpErrorJSON,
+  ProblemDetailsJSON,
+  ErrorResponseFormat,
+  SerializedCause,
+  TypedErrorFactory,
+  RetryAfterOptions,
+  TooManyRequestsOptions,
+  ServiceUnavailableOptions,
+  MethodNotAllowedOptions,
+  UnauthorizedOptions,
+  PayloadTooLargeOptions,
+} from './core/types';
 
 // Adapter exports
-export { errorHandler, simpleErrorHandler } from './adapters/express';
-export type { ExpressErrorHandlerOptions } from './adapters/express';
+export {
+  errorHandler,
+  simpleErrorHandler,
+  validateRequest,
+  requestTimer,
+  metricsHandler,
+  asyncHandler,
+  wrapRouter,
+} from './adapters/express';
+export type { ExpressErrorHandlerOptions, RequestSchemas } from './adapters/express';
+export { fastifyErrorHandler, createFastifyErrorHandler } from './adapters/fastify';
+export type { FastifyErrorHandlerOptions } from './adapters/fastify';
+export { koaErrorHandler } from './adapters/koa';
+export type { KoaErrorHandlerOptions } from './adapters/koa';
+export { ObsidianExceptionFilter } from './adapters/nestjs';
+export type { NestExceptionFilterOptions } from './adapters/nestjs';
+export { handleFetchErrors } from './adapters/fetch';
+export type { FetchErrorHandlerOptions, FetchHandler } from './adapters/fetch';
+export { sendHttpError, withErrorHandling } from './adapters/node';
+export { throwIfNotOk, fromAxiosError } from './adapters/client';
+export type { NodeErrorHandlerOptions, NodeRequest, NodeResponse } from './adapters/node';
 
 // Import all factory functions
 import {
@@ -78,15 +207,16 @@ import {
   loopDetected,
   notExtended,
   networkAuthenticationRequired,
+  fromStatus,
 } from './core/factories';
 
 /**
  * Main obsidian object with all HTTP error factory methods
- * 
+ *
  * @example
  * ```ts
  * import { obsidian } from '@periodic/obsidian';
- * 
+ *
  * throw obsidian.notFound('User not found');
  * throw obsidian.badRequest('Invalid input', { code: 'VALIDATION_ERROR' });
  * throw obsidian.internalServerError('Database connection failed');
@@ -164,7 +294,10 @@ export const obsidian = {
   loopDetected,
   notExtended,
   networkAuthenticationRequired,
+
+  // Dynamic
+  fromStatus,
 } as const;
 
 // Legacy alias for backward compatibility
-export { obsidian as titanium };
\ No newline at end of file
+export { obsidian as titanium };
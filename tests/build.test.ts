@@ -0,0 +1,40 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { build } from 'tsup';
+
+type Package = typeof import('../src');
+
+// Bundlers may rename classes (`var HttpError = class _HttpError`), which
+// ts-jest running the sources cannot show
+describe('built output', () => {
+  let outDir: string;
+  let pkg: Package;
+
+  beforeAll(async () => {
+    outDir = mkdtempSync(join(tmpdir(), 'obsidian-build-'));
+    await build({
+      entry: ['src/index.ts'],
+      format: ['cjs'],
+      outDir,
+      silent: true,
+      config: false,
+    });
+    pkg = jest.requireActual<Package>(join(outDir, 'index.js'));
+  }, 60000);
+
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('should keep the HttpError name', () => {
+    expect(new pkg.HttpError(404, 'Not found').name).toBe('HttpError');
+    expect(pkg.obsidian.ok().name).toBe('HttpError');
+  });
+
+  it('should keep subclass names', () => {
+    expect(pkg.obsidian.notFound().name).toBe('NotFoundError');
+    expect(new pkg.InternalServerError().name).toBe('InternalServerError');
+    expect(pkg.HttpError.wrap(new Error('boom')).name).toBe('InternalServerError');
+  });
+});
@@ -0,0 +1,148 @@
+import { HttpError, NotFoundError, fromAxiosError, throwIfNotOk } from '../src';
+import { identity } from './helpers';
+
+function jsonResponse(body: unknown, status: number, contentType = 'application/json') {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': contentType } });
+}
+
+async function catchError(promise: Promise<unknown>): Promise<HttpError> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected promise to reject');
+}
+
+describe('throwIfNotOk', () => {
+  it('should return ok responses unchanged', async () => {
+    const response = new Response('ok', { status: 200 });
+
+    await expect(throwIfNotOk(response)).resolves.toBe(response);
+  });
+
+  it('should parse obsidian JSON bodies', async () => {
+    const error = await catchError(
+      throwIfNotOk(
+        jsonResponse(
+          { status: 404, message: 'User not found', code: 'USER_NOT_FOUND', details: { id: 1 } },
+          404
+        )
+      )
+    );
+
+    expect(error.toJSON()).toEqual({
+      ...identity,
+      status: 404,
+      message: 'User not found',
+      code: 'USER_NOT_FOUND',
+      details: { id: 1 },
+    });
+  });
+
+  it('should create status subclasses', async () => {
+    const error = await catchError(throwIfNotOk(jsonResponse({ message: 'No user' }, 404)));
+
+    expect(error).toBeInstanceOf(NotFoundError);
+  });
+
+  it('should parse Problem Details bodies', async () => {
+    const error = await catchError(
+      throwIfNotOk(
+        jsonResponse(
+          { type: 'about:blank', title: 'Conflict', status: 409, detail: 'Email taken' },
+          409,
+          'application/problem+json'
+        )
+      )
+    );
+
+    expect(error.status).toBe(409);
+    expect(error.message).toBe('Email taken');
+  });
+
+  it('should keep the response status and unknown JSON bodies as details', async () => {
+    const error = await catchError(throwIfNotOk(jsonResponse({ error: 'nope' }, 400)));
+
+    expect(error.status).toBe(400);
+    expect(error.message).toBe('Bad Request');
+    expect(error.details).toEqual({ error: 'nope' });
+  });
+
+  it('should use plain text bodies as the message', async () => {
+    const response = new Response('Upstream exploded\n', {
+      status: 502,
+      headers: { 'Content-Type': 'text/plain' },
+    });
+    const error = await catchError(throwIfNotOk(response));
+
+    expect(error.status).toBe(502);
+    expect(error.message).toBe('Upstream exploded');
+  });
+
+  it('should ignore HTML bodies', async () => {
+    const response = new Response('<html>oops</html>', {
+      status: 503,
+      headers: { 'Content-Type': 'text/html' },
+    });
+    const error = await catchError(throwIfNotOk(response));
+
+    expect(error.message).toBe('Service Unavailable');
+    expect(error.details).toBeUndefined();
+  });
+});
+
+describe('fromAxiosError', () => {
+  it('should convert responses with an obsidian body', () => {
+    const axiosError = {
+      isAxiosError: true,
+      message: 'Request failed with status code 404',
+      response: { status: 404, data: { status: 404, message: 'User not found', code: 'NF' } },
+    };
+    const error = fromAxiosError(axiosError);
+
+    expect(error.status).toBe(404);
+    expect(error.message).toBe('User not found');
+    expect(error.code).toBe('NF');
+    expect(error.cause).toBe(axiosError);
+  });
+
+  it('should convert responses with a text body', () => {
+    const error = fromAxiosError({
+      isAxiosError: true,
+      message: 'Request failed',
+      response: { status: 429, data: 'Slow down' },
+    });
+
+    expect(error.status).toBe(429);
+    expect(error.message).toBe('Slow down');
+  });
+
+  it('should map timeouts to 504 and network failures to 502', () => {
+    const timeout = fromAxiosError({
+      isAxiosError: true,
+      message: 'timeout',
+      code: 'ECONNABORTED',
+    });
+    const refused = fromAxiosError({
+      isAxiosError: true,
+      message: 'refused',
+      code: 'ECONNREFUSED',
+    });
+
+    expect(timeout.status).toBe(504);
+    expect(refused.status).toBe(502);
+    expect(refused.code).toBe('ECONNREFUSED');
+  });
+
+  it('should return HttpErrors unchanged and wrap other values', () => {
+    const httpError = new HttpError(400, 'Bad');
+    const other = new Error('boom');
+
+    expect(fromAxiosError(httpError)).toBe(httpError);
+    expect(fromAxiosError(other)).toMatchObject({ status: 500, cause: other });
+  });
+});
@@ -0,0 +1,914 @@
+import type { Request, Response, NextFunction, Router } from 'express';
+import pino from 'pino';
+import {
+  errorHandler,
+  simpleErrorHandler,
+  validateRequest,
+  registerLocale,
+  registerFormatter,
+  requestTimer,
+  createErrorMetrics,
+  metricsHandler,
+  asyncHandler,
+  wrapRouter,
+  obsidian,
+} from '../src';
+import type { StandardSchemaV1 } from '../src';
+import { HttpError } from '../src/core/http-error';
+import { identity, handlerIdentity } from './helpers';
+
+interface MockResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: unknown;
+  status: jest.Mock<MockResponse, [number]>;
+  set: jest.Mock<MockResponse, [Record<string, string>]>;
+  json: jest.Mock<MockResponse, [unknown]>;
+  send: jest.Mock<MockResponse, [unknown]>;
+}
+
+function createResponse(): MockResponse {
+  const res: MockResponse = {
+    statusCode: 200,
+    headers: {},
+    body: undefined,
+    status: jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    }),
+    set: jest.fn((fields: Record<string, string>) => {
+      Object.assign(res.headers, fields);
+      return res;
+    }),
+    json: jest.fn((body: unknown) => {
+      res.body = body;
+      return res;
+    }),
+    send: jest.fn((body: unknown) => {
+      res.body = body;
+      return res;
+    }),
+  };
+  return res;
+}
+
+function run(handler: ReturnType<typeof errorHandler>, err: Error, req: Partial<Request> = {}) {
+  const res = createResponse();
+  const next = jest.fn();
+  handler(err, req as Request, res as unknown as Response, next as NextFunction);
+  return { res, next };
+}
+
+describe('errorHandler', () => {
+  it('should send HttpError JSON with its status', () => {
+    const { res } = run(errorHandler(), obsidian.notFound('User not found'));
+
+    expect(res.statusCode).toBe(404);
+    expect(res.body).toEqual({ ...handlerIdentity, status: 404, message: 'User not found' });
+  });
+
+  it('should apply transform to HttpError instances', () => {
+    const { res } = run(
+      errorHandler({ transform: (error) => ({ error: error.message }) }),
+      obsidian.badRequest('Invalid input')
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: 'Invalid input' });
+  });
+
+  it('should call logger with error and request', () => {
+    const logger = jest.fn();
+    const err = obsidian.forbidden();
+    const req = { method: 'GET' };
+    run(errorHandler({ logger }), err, req);
+
+    expect(logger).toHaveBeenCalledWith(err, req);
+  });
+
+  it('should hide unknown error details when includeStack is false', () => {
+    const { res } = run(errorHandler({ includeStack: false }), new Error('db down'));
+
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toEqual({ ...handlerIdentity, status: 500, message: 'Internal Server Error' });
+  });
+
+  it('should include unknown error message and stack when includeStack is true', () => {
+    const { res } = run(errorHandler({ includeStack: true }), new Error('db down'));
+
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toMatchObject({ status: 500, message: 'db down' });
+    expect(res.body).toHaveProperty('stack');
+  });
+
+  it('should include the cause chain when includeStack is true', () => {
+    const cause = new Error('connection refused');
+    const { res } = run(
+      errorHandler({ includeStack: true }),
+      obsidian.internalServerError('Query failed', { cause })
+    );
+
+    expect(res.body).toMatchObject({
+      status: 500,
+      message: 'Query failed',
+      causes: [{ name: 'Error', message: 'connection refused' }],
+    });
+  });
+
+  it('should not include the cause chain when includeStack is false', () => {
+    const cause = new Error('connection refused');
+    const { res } = run(
+      errorHandler({ includeStack: false }),
+      obsidian.internalServerError('Query failed', { cause, expose: true })
+    );
+
+    expect(res.body).toEqual({ ...handlerIdentity, status: 500, message: 'Query failed' });
+  });
+
+  describe('request IDs', () => {
+    it('should echo the incoming X-Request-Id in the header and body', () => {
+      const error = obsidian.notFound();
+      const { res } = run(errorHandler(), error, {
+        headers: { 'x-request-id': 'req-42' },
+      } as Partial<Request>);
+
+      expect(res.headers['X-Request-Id']).toBe('req-42');
+      expect(res.body).toMatchObject({ requestId: 'req-42', id: error.id });
+    });
+
+    it('should use the traceparent trace ID', () => {
+      const { res } = run(errorHandler(), obsidian.notFound(), {
+        headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' },
+      } as Partial<Request>);
+
+      expect(res.headers['X-Request-Id']).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    });
+
+    it('should generate a request ID per request', () => {
+      const handler = errorHandler();
+      const first = run(handler, obsidian.notFound()).res.headers['X-Request-Id'];
+      const second = run(handler, obsidian.notFound()).res.headers['X-Request-Id'];
+
+      expect(first).toEqual(expect.any(String));
+      expect(first).not.toBe(second);
+    });
+
+    it('should not send request IDs when disabled', () => {
+      const { res } = run(errorHandler({ requestId: false }), obsidian.notFound());
+
+      expect(res.headers['X-Request-Id']).toBeUndefined();
+      expect(res.body).toEqual({ ...identity, status: 404, message: 'Not Found' });
+    });
+
+    it('should add error and request IDs to log records', () => {
+      const logger = { warn: jest.fn(), error: jest.fn() };
+      const error = obsidian.notFound();
+      run(errorHandler({ logger, requestId: () => 'req-7' }), error);
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ id: error.id, requestId: 'req-7' }),
+        'Not Found'
+      );
+    });
+  });
+
+  describe('structured logging', () => {
+    function createLogger() {
+      return { warn: jest.fn(), error: jest.fn() };
+    }
+
+    const req = { method: 'GET', originalUrl: '/users/1?x=1', url: '/1' } as Partial<Request>;
+
+    it('should log 4xx errors at warn level with request information', () => {
+      const logger = createLogger();
+      run(errorHandler({ logger }), obsidian.notFound('User not found', { code: 'NF' }), req);
+
+      expect(logger.error).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 404,
+          code: 'NF',
+          name: 'NotFoundError',
+          method: 'GET',
+          url: '/users/1?x=1',
+          stack: expect.any(String) as string,
+        }),
+        'User not found'
+      );
+      expect(logger.warn.mock.calls[0][0]).not.toHaveProperty('level');
+    });
+
+    it('should write records pino can parse', () => {
+      const lines: string[] = [];
+      const logger = pino({ base: undefined }, { write: (line: string) => lines.push(line) });
+      run(errorHandler({ logger }), obsidian.notFound('User not found', { code: 'NF' }), req);
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0].match(/"level"/g)).toHaveLength(1);
+      expect(JSON.parse(lines[0])).toMatchObject({
+        level: 40,
+        msg: 'User not found',
+        status: 404,
+        code: 'NF',
+      });
+    });
+
+    it('should log the id sent in the response', () => {
+      const logger = createLogger();
+      const handler = errorHandler({ logger });
+      const tooLarge = Object.assign(new Error('request entity too large'), {
+        type: 'entity.too.large',
+      });
+
+      const { res: normalized } = run(handler, tooLarge, req);
+      const { res: unknown } = run(handler, new Error('boom'), req);
+
+      const [[warnRecord]] = logger.warn.mock.calls as [[{ id: string }]];
+      const [[errorRecord]] = logger.error.mock.calls as [[{ id: string }]];
+      expect(warnRecord.id).toBe((normalized.body as { id: string }).id);
+      expect(errorRecord.id).toBe((unknown.body as { id: string }).id);
+    });
+
+    it('should log 5xx and unknown errors at error level with their causes', () => {
+      const logger = createLogger();
+      run(
+        errorHandler({ logger }),
+        new Error('Query failed', { cause: new Error('timeout') }),
+        req
+      );
+
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 500,
+          causes: [expect.objectContaining({ message: 'timeout' })],
+        }),
+        'Query failed'
+      );
+    });
+
+    it('should log the duration measured by requestTimer', () => {
+      const logger = createLogger();
+      const timedReq = { ...req } as Request;
+      requestTimer()(timedReq, createResponse() as unknown as Response, jest.fn());
+      run(errorHandler({ logger }), obsidian.badRequest(), timedReq);
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ durationMs: expect.any(Number) as number }),
+        'Bad Request'
+      );
+    });
+
+    it('should rate limit identical errors and report suppressed ones', () => {
+      jest.useFakeTimers();
+      try {
+        const logger = createLogger();
+        const handler = errorHandler({ logger, logRateLimit: { windowMs: 1000 } });
+
+        run(handler, obsidian.badGateway('Upstream down'), req);
+        run(handler, obsidian.badGateway('Upstream down'), req);
+        run(handler, obsidian.badGateway('Upstream down'), req);
+        run(handler, obsidian.badGateway('Other failure'), req);
+        expect(logger.error).toHaveBeenCalledTimes(2);
+
+        jest.advanceTimersByTime(1000);
+        run(handler, obsidian.badGateway('Upstream down'), req);
+        expect(logger.error).toHaveBeenCalledTimes(3);
+        expect(logger.error).toHaveBeenLastCalledWith(
+          expect.objectContaining({ suppressed: 2 }),
+          'Upstream down'
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('exposure', () => {
+    const sqlError = () =>
+      obsidian.internalServerError('Query failed: SELECT * FROM users', {
+        code: 'DB_ERROR',
+        details: { sql: 'SELECT * FROM users' },
+      });
+
+    it('should hide the message and details of 5xx errors in production', () => {
+      const { res } = run(errorHandler({ includeStack: false }), sqlError());
+
+      expect(res.body).toEqual({
+        ...handlerIdentity,
+        status: 500,
+        message: 'Internal Server Error',
+        code: 'DB_ERROR',
+      });
+    });
+
+    it('should send the message and details of 5xx errors in development', () => {
+      const { res } = run(errorHandler({ includeStack: true }), sqlError());
+
+      expect(res.body).toEqual({
+        ...handlerIdentity,
+        status: 500,
+        message: 'Query failed: SELECT * FROM users',
+        code: 'DB_ERROR',
+        details: { sql: 'SELECT * FROM users' },
+      });
+    });
+
+    it('should hide 4xx errors with expose: false', () => {
+      const { res } = run(
+        errorHandler({ includeStack: false }),
+        obsidian.forbidden('Tenant 42 is suspended for fraud', { expose: false })
+      );
+
+      expect(res.body).toEqual({ ...handlerIdentity, status: 403, message: 'Forbidden' });
+    });
+
+    it('should send publicDetails instead of details', () => {
+      const error = obsidian.serviceUnavailable('Pool exhausted', {
+        details: { host: 'db-1.internal' },
+        publicDetails: { retryable: true },
+      });
+
+      expect(run(errorHandler({ includeStack: false }), error).res.body).toEqual({
+        ...handlerIdentity,
+        status: 503,
+        message: 'Service Unavailable',
+        details: { retryable: true },
+      });
+      expect(run(errorHandler({ includeStack: true }), error).res.body).toEqual({
+        ...handlerIdentity,
+        status: 503,
+        message: 'Pool exhausted',
+        details: { retryable: true },
+      });
+    });
+
+    it('should hide the Problem Details detail of non-exposed errors', () => {
+      const { res } = run(errorHandler({ includeStack: false, format: 'problem' }), sqlError());
+
+      expect(res.body).toEqual({
+        ...handlerIdentity,
+        type: 'about:blank',
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'Internal Server Error',
+        code: 'DB_ERROR',
+      });
+    });
+
+    it('should pass transform the public error and the original', () => {
+      const transform = jest.fn((error: HttpError, original: HttpError) => ({
+        message: error.message,
+        details: error.details,
+        logged: original.message,
+      }));
+      const error = obsidian.serviceUnavailable('Pool exhausted', {
+        details: { host: 'db-1.internal' },
+        publicDetails: { retryable: true },
+      });
+
+      expect(run(errorHandler({ includeStack: false, transform }), error).res.body).toEqual({
+        message: 'Service Unavailable',
+        details: { retryable: true },
+        logged: 'Pool exhausted',
+      });
+      expect(transform.mock.calls[0][1]).toBe(error);
+    });
+  });
+
+  it('should send recognized errors with their status', () => {
+    const err = Object.assign(new Error('request entity too large'), {
+      type: 'entity.too.large',
+    });
+    const { res } = run(errorHandler({ includeStack: false }), err);
+
+    expect(res.statusCode).toBe(413);
+    expect(res.body).toEqual({
+      ...handlerIdentity,
+      status: 413,
+      message: 'request entity too large',
+      code: 'ENTITY_TOO_LARGE',
+    });
+  });
+
+  it('should apply HttpError headers before sending', () => {
+    const { res } = run(
+      errorHandler(),
+      obsidian.unauthorized('Token expired', { headers: { 'WWW-Authenticate': 'Bearer' } })
+    );
+
+    expect(res.statusCode).toBe(401);
+    expect(res.headers).toEqual({
+      'WWW-Authenticate': 'Bearer',
+      'X-Request-Id': expect.any(String) as string,
+    });
+  });
+
+  describe('content negotiation', () => {
+    const accept = (value: string): Partial<Request> =>
+      ({ headers: { accept: value } }) as Partial<Request>;
+
+    it('should send JSON for */* and missing Accept headers', () => {
+      const { res } = run(errorHandler(), obsidian.notFound(), accept('*/*'));
+
+      expect(res.json).toHaveBeenCalledWith({
+        ...handlerIdentity,
+        status: 404,
+        message: 'Not Found',
+      });
+      expect(res.send).not.toHaveBeenCalled();
+    });
+
+    it('should send Problem Details when requested', () => {
+      const { res } = run(errorHandler(), obsidian.notFound(), accept('application/problem+json'));
+
+      expect(res.headers['Content-Type']).toBe('application/problem+json');
+      expect(res.body).toMatchObject({ title: 'Not Found', status: 404 });
+    });
+
+    it('should send plain text', () => {
+      const { res } = run(
+        errorHandler(),
+        obsidian.notFound('User not found', { code: 'USER_NOT_FOUND' }),
+        accept('text/plain')
+      );
+
+      expect(res.headers['Content-Type']).toBe('text/plain');
+      expect(res.body).toBe('404 User not found\ncode: USER_NOT_FOUND\n');
+    });
+
+    it('should send escaped XML', () => {
+      const { res } = run(
+        errorHandler({ requestId: () => 'req-1' }),
+        obsidian.badRequest('a < b', {
+          details: { fields: ['name'] },
+          id: 'err-1',
+          timestamp: '2024-01-01T00:00:00.000Z',
+        }),
+        accept('application/json;q=0.5, application/xml')
+      );
+
+      expect(res.headers['Content-Type']).toBe('application/xml');
+      expect(res.body).toBe(
+        '<?xml version="1.0" encoding="UTF-8"?>\n' +
+          '<error><status>400</status><message>a &lt; b</message>' +
+          '<id>err-1</id><timestamp>2024-01-01T00:00:00.000Z</timestamp>' +
+          '<details><fields><item>name</item></fields></details>' +
+          '<requestId>req-1</requestId></error>\n'
+      );
+    });
+
+    it('should match type wildcards', () => {
+      const { res } = run(errorHandler(), obsidian.notFound(), accept('text/*'));
+
+      expect(res.headers['Content-Type']).toBe('text/plain');
+    });
+
+    it('should fall back instead of failing with 406', () => {
+      const { res } = run(
+        errorHandler({ fallback: 'text/plain' }),
+        obsidian.notFound(),
+        accept('image/png')
+      );
+
+      expect(res.statusCode).toBe(404);
+      expect(res.body).toBe('404 Not Found\n');
+    });
+
+    it('should use registered formatters', () => {
+      registerFormatter('text/csv', {
+        format: 'json',
+        serialize: (body) => `status,message\n${(body as { status: number }).status},Gone\n`,
+      });
+      const { res } = run(errorHandler(), obsidian.gone(), accept('text/csv'));
+
+      expect(res.headers['Content-Type']).toBe('text/csv');
+      expect(res.body).toBe('status,message\n410,Gone\n');
+    });
+  });
+
+  describe('localization', () => {
+    beforeAll(() => {
+      registerLocale('es', {
+        messages: { USER_NOT_FOUND: 'Usuario {id} no encontrado' },
+        statusMessages: { 404: 'No encontrado', 500: 'Error interno del servidor' },
+      });
+    });
+
+    const spanish = { headers: { 'accept-language': 'es-ES,es;q=0.9' } } as Partial<Request>;
+
+    it('should translate messages for the Accept-Language locale', () => {
+      const { res } = run(
+        errorHandler(),
+        obsidian.notFound('User {id} not found', { code: 'USER_NOT_FOUND', params: { id: 7 } }),
+        spanish
+      );
+
+      expect(res.headers['Content-Language']).toBe('es');
+      expect(res.body).toEqual({
+        ...handlerIdentity,
+        status: 404,
+        message: 'Usuario 7 no encontrado',
+        code: 'USER_NOT_FOUND',
+      });
+    });
+
+    it('should translate the title and detail of Problem Details', () => {
+      const { res } = run(errorHandler({ format: 'problem' }), obsidian.notFound(), spanish);
+
+      expect(res.body).toMatchObject({ title: 'No encontrado', detail: 'No encontrado' });
+    });
+
+    it('should translate the generic message of unknown errors in production', () => {
+      const { res } = run(errorHandler({ includeStack: false }), new Error('secret'), spanish);
+
+      expect(res.body).toEqual({
+        ...handlerIdentity,
+        status: 500,
+        message: 'Error interno del servidor',
+      });
+    });
+
+    it('should use the locale option instead of Accept-Language', () => {
+      const { res } = run(errorHandler({ locale: () => undefined }), obsidian.notFound(), spanish);
+
+      expect(res.body).toEqual({ ...handlerIdentity, status: 404, message: 'Not Found' });
+      expect(res.headers['Content-Language']).toBeUndefined();
+    });
+  });
+
+  describe('problem format', () => {
+    it('should send Problem Details with application/problem+json', () => {
+      const { res } = run(
+        errorHandler({ format: 'problem' }),
+        obsidian.notFound('User not found', { code: 'USER_NOT_FOUND', instance: '/users/1' })
+      );
+
+      expect(res.statusCode).toBe(404);
+      expect(res.headers['Content-Type']).toBe('application/problem+json');
+      expect(res.body).toEqual({
+        ...handlerIdentity,
+        type: 'about:blank',
+        title: 'Not Found',
+        status: 404,
+        detail: 'User not found',
+        instance: '/users/1',
+        code: 'USER_NOT_FOUND',
+      });
+    });
+
+    it('should send Problem Details to clients accepting application/json', () => {
+      const { res } = run(errorHandler({ format: 'problem' }), obsidian.notFound(), {
+        headers: { accept: 'application/json, text/plain, */*' },
+      });
+
+      expect(res.headers['Content-Type']).toBe('application/problem+json');
+      expect(res.body).toEqual({
+        ...handlerIdentity,
+        type: 'about:blank',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Not Found',
+      });
+    });
+
+    it('should send Problem Details for unknown errors', () => {
+      const { res } = run(
+        errorHandler({ format: 'problem', includeStack: false }),
+        new Error('db down')
+      );
+
+      expect(res.statusCode).toBe(500);
+      expect(res.headers['Content-Type']).toBe('application/problem+json');
+      expect(res.body).toEqual({
+        ...handlerIdentity,
+        type: 'about:blank',
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'Internal Server Error',
+      });
+    });
+
+    it('should include stack as an extension member in development', () => {
+      const { res } = run(
+        errorHandler({ format: 'problem', includeStack: true }),
+        new Error('db down')
+      );
+
+      expect(res.body).toMatchObject({ status: 500, detail: 'db down' });
+      expect(res.body).toHaveProperty('stack');
+    });
+  });
+});
+
+describe('simpleErrorHandler', () => {
+  it('should send HttpError JSON', () => {
+    const { res, next } = run(simpleErrorHandler(), obsidian.conflict());
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body).toEqual({ ...identity, status: 409, message: 'Conflict' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should apply HttpError headers', () => {
+    const { res } = run(
+      simpleErrorHandler(),
+      obsidian.serviceUnavailable('Maintenance', { headers: { 'Retry-After': '120' } })
+    );
+
+    expect(res.statusCode).toBe(503);
+    expect(res.headers).toEqual({ 'Retry-After': '120' });
+  });
+
+  it('should hide the message and details of unexposed errors in production', () => {
+    const env = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    try {
+      const { res } = run(
+        simpleErrorHandler(),
+        obsidian.internalServerError('SELECT * FROM users failed', {
+          details: { sql: 'SELECT * FROM users' },
+        })
+      );
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body).toEqual({ ...identity, status: 500, message: 'Internal Server Error' });
+    } finally {
+      process.env.NODE_ENV = env;
+    }
+  });
+
+  it('should pass unknown errors to next', () => {
+    const err = new Error('boom');
+    const { res, next } = run(simpleErrorHandler(), err);
+
+    expect(next).toHaveBeenCalledWith(err);
+    expect(res.json).not.toHaveBeenCalled();
+  });
+});
+
+describe('validateRequest', () => {
+  // Accepts strings of digits and converts them to numbers
+  const numeric: StandardSchemaV1<unknown, number> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) =>
+        typeof value === 'string' && /^\d+$/.test(value)
+          ? { value: Number(value) }
+          : { issues: [{ message: 'Expected digits' }] },
+    },
+  };
+
+  const idParams: StandardSchemaV1<unknown, { id: number }> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => {
+        const result = numeric['~standard'].validate((value as { id?: unknown }).id);
+        if (result instanceof Promise || result.issues) {
+          return { issues: [{ message: 'Expected digits', path: ['id'] }] };
+        }
+        return { value: { id: result.value } };
+      },
+    },
+  };
+
+  async function runValidation(
+    middleware: ReturnType<typeof validateRequest>,
+    req: Partial<Request>
+  ): Promise<unknown> {
+    return new Promise((resolve) => {
+      middleware(req as Request, createResponse() as unknown as Response, resolve);
+    });
+  }
+
+  it('should replace request parts with validated values', async () => {
+    const req: Partial<Request> = { params: { id: '42' } };
+    const err = await runValidation(validateRequest({ params: idParams }), req);
+
+    expect(err).toBeUndefined();
+    expect(req.params).toEqual({ id: 42 });
+  });
+
+  it('should replace a getter-only query (Express 5)', async () => {
+    const req = Object.create(
+      Object.defineProperty({}, 'query', { get: () => ({ page: '2' }), configurable: true })
+    ) as Partial<Request>;
+    const pageQuery: StandardSchemaV1<unknown, { page: number }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => ({ value: { page: Number((value as { page: string }).page) } }),
+      },
+    };
+
+    const err = await runValidation(validateRequest({ query: pageQuery }), req);
+
+    expect(err).toBeUndefined();
+    expect(req.query).toEqual({ page: 2 });
+  });
+
+  it('should pass one error with the issues of every part to next', async () => {
+    const req: Partial<Request> = { params: { id: 'abc' }, body: 'x' };
+    const err = await runValidation(validateRequest({ params: idParams, body: numeric }), req);
+
+    expect(err).toBeInstanceOf(HttpError);
+    expect((err as HttpError).status).toBe(422);
+    expect((err as HttpError).details).toEqual({
+      issues: [
+        { path: ['params', 'id'], message: 'Expected digits' },
+        { path: ['body'], message: 'Expected digits' },
+      ],
+    });
+    expect(req.body).toBe('x');
+  });
+
+  it('should honour the status option', async () => {
+    const err = await runValidation(validateRequest({ body: numeric }, { status: 400 }), {
+      body: 'x',
+    });
+
+    expect((err as HttpError).status).toBe(400);
+  });
+});
+
+describe('metrics', () => {
+  it('should count errors by status, code and route pattern', () => {
+    const metrics = createErrorMetrics();
+    const handler = errorHandler({ metrics });
+    const req = { baseUrl: '/api', route: { path: '/users/:id' } } as unknown as Partial<Request>;
+
+    run(handler, obsidian.notFound('No user', { code: 'USER_NOT_FOUND' }), req);
+    run(handler, obsidian.notFound('No user', { code: 'USER_NOT_FOUND' }), req);
+    run(handler, new Error('boom'));
+
+    expect(metrics.samples()).toEqual([
+      {
+        labels: {
+          status: '404',
+          statusClass: '4xx',
+          code: 'USER_NOT_FOUND',
+          route: '/api/users/:id',
+        },
+        value: 2,
+      },
+      { labels: { status: '500', statusClass: '5xx', code: '', route: '' }, value: 1 },
+    ]);
+  });
+
+  it('should serve the Prometheus text format', () => {
+    const metrics = createErrorMetrics();
+    metrics.record(obsidian.serviceUnavailable(undefined, { code: 'DB_DOWN' }), '/health');
+    const res = createResponse();
+
+    metricsHandler(metrics)({} as Request, res as unknown as Response, jest.fn());
+
+    expect(res.headers['Content-Type']).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(res.body).toBe(
+      '# HELP http_errors_total HTTP errors handled by obsidian error handlers\n' +
+        '# TYPE http_errors_total counter\n' +
+        'http_errors_total{status="503",status_class="5xx",code="DB_DOWN",route="/health"} 1\n'
+    );
+  });
+});
+
+// Lets pending promise callbacks run
+function flush() {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('asyncHandler', () => {
+  it('should pass rejected promises to next', async () => {
+    const error = obsidian.notFound('User not found');
+    const next = jest.fn();
+
+    asyncHandler(async () => {
+      await Promise.resolve();
+      throw error;
+    })({} as Request, createResponse() as unknown as Response, next);
+    await flush();
+
+    expect(next).toHaveBeenCalledWith(error);
+  });
+
+  it('should pass synchronous throws to next', () => {
+    const error = obsidian.badRequest();
+    const next = jest.fn();
+
+    asyncHandler(() => {
+      throw error;
+    })({} as Request, createResponse() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledWith(error);
+  });
+
+  it('should not call next when the handler resolves', async () => {
+    const next = jest.fn();
+    const res = createResponse();
+
+    asyncHandler(async (_req: Request, response: Response) => {
+      await Promise.resolve();
+      response.json({ ok: true });
+    })({} as Request, res as unknown as Response, next);
+    await flush();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.body).toEqual({ ok: true });
+  });
+
+  it('should turn a rejection without reason into an error', async () => {
+    const next = jest.fn();
+
+    asyncHandler(() => Promise.reject())({} as Request, {} as Response, next);
+    await flush();
+
+    expect(next).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it('should keep the arity of error middleware', async () => {
+    const next = jest.fn();
+    const error = new Error('boom');
+    const handler = asyncHandler(
+      async (err: unknown, _req: Request, _res: Response, _next: NextFunction) => {
+        await Promise.resolve();
+        throw err;
+      }
+    );
+
+    expect(handler).toHaveLength(4);
+
+    handler(error, {} as Request, {} as Response, next);
+    await flush();
+
+    expect(next).toHaveBeenCalledWith(error);
+  });
+});
+
+describe('wrapRouter', () => {
+  type Handler = (...args: unknown[]) => unknown;
+
+  function createRouter() {
+    const registered: { method: string; args: unknown[] }[] = [];
+    const record =
+      (method: string) =>
+      (...args: unknown[]): void => {
+        registered.push({ method, args });
+      };
+    const route = { get: jest.fn(record('route.get')), post: jest.fn(record('route.post')) };
+    const router = {
+      get: record('get'),
+      post: record('post'),
+      use: record('use'),
+      route: jest.fn((_path: string) => route),
+    };
+    return { router, registered };
+  }
+
+  it('should forward async throws from route handlers', async () => {
+    const { router, registered } = createRouter();
+    const error = obsidian.notFound();
+    wrapRouter(router as unknown as Router);
+
+    router.get('/users/:id', async () => {
+      await Promise.resolve();
+      throw error;
+    });
+
+    const [path, handler] = registered[0].args as [string, Handler];
+    const next = jest.fn();
+    handler({}, {}, next);
+    await flush();
+
+    expect(path).toBe('/users/:id');
+    expect(next).toHaveBeenCalledWith(error);
+  });
+
+  it('should wrap handler arrays and routes', async () => {
+    const { router, registered } = createRouter();
+    const error = obsidian.forbidden();
+    wrapRouter(router as unknown as Router);
+
+    router.route('/items').get(() => Promise.reject(error));
+    router.post('/items', [() => Promise.reject(error)]);
+
+    const routeHandler = registered[0].args[0] as Handler;
+    const [handlers] = registered[1].args.slice(1) as [Handler[]];
+    const next = jest.fn();
+    routeHandler({}, {}, next);
+    handlers[0]({}, {}, next);
+    await flush();
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(next).toHaveBeenCalledWith(error);
+  });
+
+  it('should leave mounted routers untouched', () => {
+    const { router, registered } = createRouter();
+    const child = Object.assign(() => undefined, { handle: jest.fn() });
+    wrapRouter(router as unknown as Router);
+
+    router.use('/child', child);
+
+    expect(registered[0].args[1]).toBe(child);
+  });
+});
@@ -0,0 +1,144 @@
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { fastifyErrorHandler, createErrorMetrics, obsidian } from '../src';
+import type { FastifyErrorHandlerOptions } from '../src';
+import { identity } from './helpers';
+
+async function createApp(options: FastifyErrorHandlerOptions = {}): Promise<FastifyInstance> {
+  const app = Fastify();
+  await app.register(fastifyErrorHandler, options);
+
+  app.get('/not-found', async () => {
+    throw obsidian.notFound('User not found', { code: 'USER_NOT_FOUND' });
+  });
+
+  app.get('/crash', async () => {
+    throw new Error('db down');
+  });
+
+  app.post(
+    '/users',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: { name: { type: 'string' } },
+        },
+      },
+    },
+    async () => ({ ok: true })
+  );
+
+  return app;
+}
+
+describe('fastifyErrorHandler', () => {
+  it('should send HttpError JSON with its status', async () => {
+    const app = await createApp();
+    const response = await app.inject({ method: 'GET', url: '/not-found' });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json()).toEqual({
+      ...identity,
+      status: 404,
+      message: 'User not found',
+      code: 'USER_NOT_FOUND',
+    });
+  });
+
+  it('should apply transform to HttpError instances', async () => {
+    const app = await createApp({ transform: (error) => ({ error: error.message }) });
+    const response = await app.inject({ method: 'GET', url: '/not-found' });
+
+    expect(response.json()).toEqual({ error: 'User not found' });
+  });
+
+  it('should call logger with error and request', async () => {
+    const logger = jest.fn();
+    const app = await createApp({ logger });
+    await app.inject({ method: 'GET', url: '/not-found' });
+
+    expect(logger).toHaveBeenCalledTimes(1);
+    expect(logger.mock.calls[0][0]).toMatchObject({ status: 404 });
+  });
+
+  it('should hide unknown error details when includeStack is false', async () => {
+    const app = await createApp({ includeStack: false });
+    const response = await app.inject({ method: 'GET', url: '/crash' });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json()).toEqual({ ...identity, status: 500, message: 'Internal Server Error' });
+  });
+
+  it('should include unknown error message and stack when includeStack is true', async () => {
+    const app = await createApp({ includeStack: true });
+    const response = await app.inject({ method: 'GET', url: '/crash' });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json()).toMatchObject({ status: 500, message: 'db down' });
+    expect(response.json()).toHaveProperty('stack');
+  });
+
+  it('should translate validation errors into 400 HttpErrors', async () => {
+    const app = await createApp();
+    const response = await app.inject({ method: 'POST', url: '/users', payload: {} });
+    const body = response.json<{ status: number; code: string; details: unknown }>();
+
+    expect(response.statusCode).toBe(400);
+    expect(body.status).toBe(400);
+    expect(body.code).toBe('FST_ERR_VALIDATION');
+    expect(body.details).toMatchObject({ validationContext: 'body' });
+  });
+
+  it('should create status subclasses for Fastify errors', async () => {
+    const app = await createApp({ transform: (error) => ({ name: error.name }) });
+    const response = await app.inject({ method: 'POST', url: '/users', payload: {} });
+
+    expect(response.json()).toEqual({ name: 'BadRequestError' });
+  });
+
+  it('should keep the status of other Fastify client errors', async () => {
+    const app = await createApp();
+    const response = await app.inject({
+      method: 'POST',
+      url: '/users',
+      headers: { 'content-type': 'application/xml' },
+      payload: '<user />',
+    });
+
+    expect(response.statusCode).toBe(415);
+    expect(response.json()).toMatchObject({ status: 415, code: 'FST_ERR_CTP_INVALID_MEDIA_TYPE' });
+  });
+
+  it('should send Problem Details when format is problem', async () => {
+    const app = await createApp({ format: 'problem' });
+    const response = await app.inject({ method: 'GET', url: '/not-found' });
+
+    expect(response.headers['content-type']).toContain('application/problem+json');
+    expect(response.json()).toEqual({
+      ...identity,
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'User not found',
+      code: 'USER_NOT_FOUND',
+    });
+  });
+
+  it('should count errors by route pattern', async () => {
+    const metrics = createErrorMetrics();
+    const app = await createApp({ metrics });
+    await app.inject({ method: 'GET', url: '/not-found' });
+    await app.inject({ method: 'GET', url: '/not-found' });
+    await app.inject({ method: 'GET', url: '/crash' });
+
+    expect(metrics.samples()).toEqual([
+      {
+        labels: { status: '404', statusClass: '4xx', code: 'USER_NOT_FOUND', route: '/not-found' },
+        value: 2,
+      },
+      { labels: { status: '500', statusClass: '5xx', code: '', route: '/crash' }, value: 1 },
+    ]);
+  });
+});
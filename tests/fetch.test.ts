@@ -0,0 +1,110 @@
+import { handleFetchErrors, obsidian } from '../src';
+import { identity } from './helpers';
+
+const request = new Request('https://example.com/users/1');
+
+describe('handleFetchErrors', () => {
+  it('should return the handler response when nothing is thrown', async () => {
+    const handler = handleFetchErrors(() => new Response('ok'));
+    const response = await handler(request);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('ok');
+  });
+
+  it('should turn thrown HttpError into a JSON Response', async () => {
+    const handler = handleFetchErrors(() => {
+      throw obsidian.notFound('User not found', { code: 'USER_NOT_FOUND' });
+    });
+    const response = await handler(request);
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({
+      ...identity,
+      status: 404,
+      message: 'User not found',
+      code: 'USER_NOT_FOUND',
+    });
+  });
+
+  it('should handle rejected promises and pass extra arguments through', async () => {
+    const handler = handleFetchErrors(async (_request: Request, env: { fail: boolean }) => {
+      if (env.fail) {
+        throw obsidian.serviceUnavailable();
+      }
+      return new Response('ok');
+    });
+    const response = await handler(request, { fail: true });
+
+    expect(response.status).toBe(503);
+  });
+
+  it('should hide unknown error details when includeStack is false', async () => {
+    const handler = handleFetchErrors(
+      () => {
+        throw new Error('db down');
+      },
+      { includeStack: false }
+    );
+    const response = await handler(request);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      ...identity,
+      status: 500,
+      message: 'Internal Server Error',
+    });
+  });
+
+  it('should apply logger and transform', async () => {
+    const logger = jest.fn();
+    const err = obsidian.forbidden('No access');
+    const handler = handleFetchErrors(
+      () => {
+        throw err;
+      },
+      { logger, transform: (error) => ({ error: error.message }) }
+    );
+    const response = await handler(request);
+
+    expect(logger).toHaveBeenCalledWith(err, request);
+    expect(await response.json()).toEqual({ error: 'No access' });
+  });
+
+  it('should send Problem Details when format is problem', async () => {
+    const handler = handleFetchErrors(
+      () => {
+        throw obsidian.conflict();
+      },
+      { format: 'problem' }
+    );
+    const response = await handler(request);
+
+    expect(response.headers.get('content-type')).toBe('application/problem+json');
+    expect(await response.json()).toMatchObject({ title: 'Conflict', status: 409 });
+  });
+
+  it('should rethrow Next.js control-flow errors', async () => {
+    const redirect = Object.assign(new Error('NEXT_REDIRECT'), {
+      digest: 'NEXT_REDIRECT;replace;/login;307;',
+    });
+    const handler = handleFetchErrors(() => {
+      throw redirect;
+    });
+
+    await expect(handler(request)).rejects.toBe(redirect);
+  });
+
+  it('should rethrow values accepted by rethrow', async () => {
+    const signal = new Error('abort');
+    const handler = handleFetchErrors(
+      () => {
+        throw signal;
+      },
+      { rethrow: (thrown) => thrown === signal }
+    );
+
+    await expect(handler(request)).rejects.toBe(signal);
+  });
+});
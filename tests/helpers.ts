@@ -0,0 +1,13 @@
+/**
+ * Matches the `id` and `timestamp` generated for every error
+ */
+export const identity = {
+  id: expect.any(String) as string,
+  timestamp: expect.any(String) as string,
+};
+
+/**
+ * Matches the identity members of errors handled by `errorHandler`, which adds the
+ * request ID
+ */
+export const handlerIdentity = { ...identity, requestId: expect.any(String) as string };
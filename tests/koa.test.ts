@@ -0,0 +1,124 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import Koa from 'koa';
+import type { Context } from 'koa';
+import { koaErrorHandler, obsidian } from '../src';
+import type { KoaErrorHandlerOptions } from '../src';
+import { identity } from './helpers';
+
+interface MockContext {
+  status: number;
+  body: unknown;
+  headers: Record<string, string>;
+  set: jest.Mock<void, [Record<string, string>]>;
+  app: { emit: jest.Mock };
+}
+
+function createContext(): MockContext {
+  const ctx: MockContext = {
+    status: 404,
+    body: undefined,
+    headers: {},
+    set: jest.fn((fields: Record<string, string>) => {
+      Object.assign(ctx.headers, fields);
+    }),
+    app: { emit: jest.fn() },
+  };
+  return ctx;
+}
+
+async function run(options: KoaErrorHandlerOptions, thrown: unknown) {
+  const ctx = createContext();
+  await koaErrorHandler(options)(ctx as unknown as Context, () => Promise.reject(thrown));
+  return ctx;
+}
+
+describe('koaErrorHandler', () => {
+  it('should leave successful responses untouched', async () => {
+    const ctx = createContext();
+    await koaErrorHandler()(ctx as unknown as Context, () => {
+      ctx.status = 200;
+      ctx.body = { ok: true };
+      return Promise.resolve();
+    });
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body).toEqual({ ok: true });
+    expect(ctx.app.emit).not.toHaveBeenCalled();
+  });
+
+  it('should set status and body from HttpError', async () => {
+    const ctx = await run({}, obsidian.notFound('User not found'));
+
+    expect(ctx.status).toBe(404);
+    expect(ctx.body).toEqual({ ...identity, status: 404, message: 'User not found' });
+  });
+
+  it('should emit caught errors on ctx.app', async () => {
+    const err = obsidian.badRequest();
+    const ctx = await run({}, err);
+
+    expect(ctx.app.emit).toHaveBeenCalledWith('error', err, ctx);
+  });
+
+  it('should apply transform and logger', async () => {
+    const logger = jest.fn();
+    const err = obsidian.conflict('Email taken');
+    const ctx = await run({ logger, transform: (error) => ({ error: error.message }) }, err);
+
+    expect(logger).toHaveBeenCalledWith(err, ctx);
+    expect(ctx.body).toEqual({ error: 'Email taken' });
+  });
+
+  it('should hide unknown error details when includeStack is false', async () => {
+    const ctx = await run({ includeStack: false }, new Error('db down'));
+
+    expect(ctx.status).toBe(500);
+    expect(ctx.body).toEqual({ ...identity, status: 500, message: 'Internal Server Error' });
+  });
+
+  it('should include unknown error message and stack when includeStack is true', async () => {
+    const ctx = await run({ includeStack: true }, new Error('db down'));
+
+    expect(ctx.body).toMatchObject({ status: 500, message: 'db down' });
+    expect(ctx.body).toHaveProperty('stack');
+  });
+
+  it('should handle non-Error thrown values', async () => {
+    const ctx = await run({ includeStack: true }, 'boom');
+
+    expect(ctx.status).toBe(500);
+    expect(ctx.body).toMatchObject({ message: 'boom' });
+  });
+
+  it('should set the problem+json content type when format is problem', async () => {
+    const ctx = await run({ format: 'problem' }, obsidian.forbidden());
+
+    expect(ctx.headers['Content-Type']).toBe('application/problem+json');
+    expect(ctx.body).toMatchObject({ title: 'Forbidden', status: 403 });
+  });
+});
+
+describe('koaErrorHandler with a Koa app', () => {
+  it('should send the Problem Details content type', async () => {
+    const app = new Koa();
+    app.silent = true;
+    app.use(koaErrorHandler({ format: 'problem' }));
+    app.use(() => {
+      throw obsidian.notFound('User not found');
+    });
+
+    const server = createServer(app.callback());
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/users/1`);
+
+      expect(response.status).toBe(404);
+      expect(response.headers.get('content-type')).toBe('application/problem+json');
+      expect(await response.json()).toMatchObject({ status: 404, detail: 'User not found' });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
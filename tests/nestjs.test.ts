@@ -0,0 +1,120 @@
+import { BadRequestException, HttpException, NotFoundException } from '@nestjs/common';
+import type { ArgumentsHost } from '@nestjs/common';
+import { ObsidianExceptionFilter, obsidian } from '../src';
+import { identity } from './helpers';
+
+interface MockResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: unknown;
+  status: jest.Mock;
+  header: jest.Mock;
+  send: jest.Mock;
+}
+
+function createHost(type = 'http') {
+  const request = { url: '/users/1' };
+  const response: MockResponse = {
+    statusCode: 200,
+    headers: {},
+    body: undefined,
+    status: jest.fn((code: number) => {
+      response.statusCode = code;
+    }),
+    header: jest.fn((name: string, value: string) => {
+      response.headers[name] = value;
+    }),
+    send: jest.fn((body: unknown) => {
+      response.body = body;
+    }),
+  };
+  const host = {
+    getType: () => type,
+    switchToHttp: () => ({
+      getRequest: () => request,
+      getResponse: () => response,
+    }),
+  } as unknown as ArgumentsHost;
+
+  return { host, request, response };
+}
+
+describe('ObsidianExceptionFilter', () => {
+  it('should write HttpError JSON with its status', () => {
+    const { host, response } = createHost();
+    new ObsidianExceptionFilter().catch(obsidian.notFound('User not found'), host);
+
+    expect(response.statusCode).toBe(404);
+    expect(response.body).toEqual({ ...identity, status: 404, message: 'User not found' });
+  });
+
+  it('should convert Nest HttpException with a string message', () => {
+    const { host, response } = createHost();
+    new ObsidianExceptionFilter().catch(new NotFoundException('No such user'), host);
+
+    expect(response.statusCode).toBe(404);
+    expect(response.body).toEqual({ ...identity, status: 404, message: 'No such user' });
+  });
+
+  it('should create status subclasses for Nest HttpExceptions', () => {
+    const { host, response } = createHost();
+    const filter = new ObsidianExceptionFilter({ transform: (error) => ({ name: error.name }) });
+    filter.catch(new NotFoundException('No such user'), host);
+
+    expect(response.body).toEqual({ name: 'NotFoundError' });
+  });
+
+  it('should convert Nest HttpException with a string response', () => {
+    const { host, response } = createHost();
+    new ObsidianExceptionFilter().catch(new HttpException('Slow down', 429), host);
+
+    expect(response.statusCode).toBe(429);
+    expect(response.body).toEqual({ ...identity, status: 429, message: 'Slow down' });
+  });
+
+  it('should keep ValidationPipe messages in details', () => {
+    const { host, response } = createHost();
+    const exception = new BadRequestException(['name must be a string']);
+    new ObsidianExceptionFilter().catch(exception, host);
+
+    expect(response.statusCode).toBe(400);
+    expect(response.body).toEqual({
+      ...identity,
+      status: 400,
+      message: 'Bad Request',
+      details: { messages: ['name must be a string'] },
+    });
+  });
+
+  it('should hide unknown error details when includeStack is false', () => {
+    const { host, response } = createHost();
+    new ObsidianExceptionFilter({ includeStack: false }).catch(new Error('db down'), host);
+
+    expect(response.statusCode).toBe(500);
+    expect(response.body).toEqual({ ...identity, status: 500, message: 'Internal Server Error' });
+  });
+
+  it('should call logger with error and platform request', () => {
+    const logger = jest.fn();
+    const { host, request } = createHost();
+    const err = obsidian.forbidden();
+    new ObsidianExceptionFilter({ logger }).catch(err, host);
+
+    expect(logger).toHaveBeenCalledWith(err, request);
+  });
+
+  it('should set the problem+json content type when format is problem', () => {
+    const { host, response } = createHost();
+    new ObsidianExceptionFilter({ format: 'problem' }).catch(obsidian.conflict(), host);
+
+    expect(response.headers['Content-Type']).toBe('application/problem+json');
+    expect(response.body).toMatchObject({ title: 'Conflict', status: 409 });
+  });
+
+  it('should rethrow exceptions from non-HTTP contexts', () => {
+    const { host } = createHost('rpc');
+    const err = obsidian.notFound();
+
+    expect(() => new ObsidianExceptionFilter().catch(err, host)).toThrow(err);
+  });
+});
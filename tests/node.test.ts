@@ -0,0 +1,133 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { obsidian, sendHttpError, withErrorHandling } from '../src';
+import type { NodeErrorHandlerOptions } from '../src';
+import { identity } from './helpers';
+
+async function request(
+  listener: http.RequestListener,
+  path = '/'
+): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }> {
+  const server = http.createServer(listener);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    return await new Promise((resolve, reject) => {
+      http
+        .get({ port, path }, (res) => {
+          let body = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => (body += chunk));
+          res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+        })
+        .on('error', reject);
+    });
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+describe('sendHttpError', () => {
+  it('should write status, JSON headers and Content-Length', async () => {
+    const response = await request((_req, res) => {
+      sendHttpError(res, obsidian.notFound('Usér not found'));
+    });
+
+    expect(response.status).toBe(404);
+    expect(response.headers['content-type']).toBe('application/json');
+    expect(response.headers['content-length']).toBe(String(Buffer.byteLength(response.body)));
+    expect(JSON.parse(response.body)).toEqual({
+      ...identity,
+      status: 404,
+      message: 'Usér not found',
+    });
+  });
+
+  it('should send Problem Details when format is problem', async () => {
+    const response = await request((_req, res) => {
+      sendHttpError(res, obsidian.conflict(), { format: 'problem' });
+    });
+
+    expect(response.headers['content-type']).toBe('application/problem+json');
+    expect(JSON.parse(response.body)).toMatchObject({ title: 'Conflict', status: 409 });
+  });
+
+  it('should only end the response when headers were already sent', () => {
+    const res = { headersSent: true, end: jest.fn(), setHeader: jest.fn() };
+    sendHttpError(res as unknown as http.ServerResponse, obsidian.badRequest());
+
+    expect(res.end).toHaveBeenCalledWith();
+    expect(res.setHeader).not.toHaveBeenCalled();
+  });
+});
+
+describe('withErrorHandling', () => {
+  const options: NodeErrorHandlerOptions = { includeStack: false };
+
+  it('should send errors thrown synchronously', async () => {
+    const response = await request(
+      withErrorHandling(() => {
+        throw obsidian.badRequest('Invalid input');
+      }, options)
+    );
+
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.body)).toEqual({
+      ...identity,
+      status: 400,
+      message: 'Invalid input',
+    });
+  });
+
+  it('should send errors from rejected promises', async () => {
+    const response = await request(
+      withErrorHandling(async () => {
+        await Promise.resolve();
+        throw obsidian.unauthorized();
+      }, options)
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should hide unknown error details when includeStack is false', async () => {
+    const response = await request(
+      withErrorHandling(() => {
+        throw new Error('db down');
+      }, options)
+    );
+
+    expect(response.status).toBe(500);
+    expect(JSON.parse(response.body)).toEqual({
+      ...identity,
+      status: 500,
+      message: 'Internal Server Error',
+    });
+  });
+
+  it('should call logger with error and request', async () => {
+    const logger = jest.fn();
+    const err = obsidian.forbidden();
+    await request(
+      withErrorHandling(
+        () => {
+          throw err;
+        },
+        { logger }
+      ),
+      '/secret'
+    );
+
+    expect(logger).toHaveBeenCalledTimes(1);
+    expect(logger.mock.calls[0][0]).toBe(err);
+    expect(logger.mock.calls[0][1]).toMatchObject({ url: '/secret' });
+  });
+
+  it('should leave successful responses untouched', async () => {
+    const response = await request(withErrorHandling((_req, res) => res.end('ok')));
+
+    expect(response.status).toBe(200);
+    expect(response.body).toBe('ok');
+  });
+});
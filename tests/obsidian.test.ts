@@ -1,5 +1,36 @@
 import { HttpError } from '../src/core/http-error';
-import { obsidian } from '../src';
+import {
+  obsidian,
+  isHttpError,
+  errorHandler,
+  serializeCauseChain,
+  defineErrors,
+  normalizeError,
+  validateOrThrow,
+  registerLocale,
+  negotiateLocale,
+  localizeMessage,
+  resolveRequestId,
+  generateId,
+  createErrorMetrics,
+  HttpStatusCode,
+  HttpStatusInfo,
+  statusClass,
+  statusKey,
+  isClientError,
+  isServerError,
+  isRetryable,
+  NotFoundError,
+  UnauthorizedError,
+  TooManyRequestsError,
+  InternalServerError,
+  BadRequestError,
+  UnprocessableEntityError,
+  ServiceUnavailableError,
+  BadGatewayError,
+} from '../src';
+import type { StandardSchemaV1, StandardSchemaIssue } from '../src';
+import { identity, handlerIdentity } from './helpers';
 
 describe('HttpError', () => {
   describe('constructor', () => {
@@ -63,10 +94,7 @@ describe('HttpError', () => {
       const error = new HttpError(404, 'Not found');
       const json = error.toJSON();
 
-      expect(json).toEqual({
-        status: 404,
-        message: 'Not found',
-      });
+      expect(json).toEqual({ ...identity, status: 404, message: 'Not found' });
       expect(json).not.toHaveProperty('stack');
     });
 
@@ -77,6 +105,7 @@ describe('HttpError', () => {
       const json = error.toJSON();
 
       expect(json).toEqual({
+        ...identity,
         status: 404,
         message: 'Not found',
         code: 'RESOURCE_NOT_FOUND',
@@ -88,11 +117,7 @@ describe('HttpError', () => {
       const error = new HttpError(404, 'User not found', { details });
       const json = error.toJSON();
 
-      expect(json).toEqual({
-        status: 404,
-        message: 'User not found',
-        details,
-      });
+      expect(json).toEqual({ ...identity, status: 404, message: 'User not found', details });
     });
 
     it('should include both code and details when present', () => {
@@ -103,6 +128,7 @@ describe('HttpError', () => {
       const json = error.toJSON();
 
       expect(json).toEqual({
+        ...identity,
         status: 400,
         message: 'Bad request',
         code: 'INVALID_INPUT',
@@ -129,6 +155,7 @@ describe('HttpError', () => {
       const parsed = JSON.parse(jsonString);
 
       expect(parsed).toEqual({
+        ...identity,
         status: 403,
         message: 'Forbidden',
         code: 'ACCESS_DENIED',
@@ -136,6 +163,273 @@ describe('HttpError', () => {
     });
   });
 
+  describe('toProblemJSON', () => {
+    it('should serialize to RFC 9457 Problem Details', () => {
+      const error = new HttpError(404, 'User not found');
+
+      expect(error.toProblemJSON()).toEqual({
+        ...identity,
+        type: 'about:blank',
+        title: 'Not Found',
+        status: 404,
+        detail: 'User not found',
+      });
+    });
+
+    it('should include type, instance and extension members when present', () => {
+      const error = new HttpError(422, 'Validation failed', {
+        code: 'VALIDATION_ERROR',
+        details: { field: 'email' },
+        type: 'https://example.com/problems/validation',
+        instance: '/users/123',
+      });
+
+      expect(error.toProblemJSON()).toEqual({
+        ...identity,
+        type: 'https://example.com/problems/validation',
+        title: 'Unprocessable Entity',
+        status: 422,
+        detail: 'Validation failed',
+        instance: '/users/123',
+        code: 'VALIDATION_ERROR',
+        details: { field: 'email' },
+      });
+    });
+  });
+
+  describe('toResponse', () => {
+    it('should create a Fetch API Response with JSON body', async () => {
+      const response = new HttpError(404, 'Not found', { code: 'NOT_FOUND' }).toResponse();
+
+      expect(response.status).toBe(404);
+      expect(response.headers.get('content-type')).toBe('application/json');
+      expect(await response.json()).toEqual({
+        ...identity,
+        status: 404,
+        message: 'Not found',
+        code: 'NOT_FOUND',
+      });
+    });
+
+    it('should hide the message and details of unexposed errors in production', async () => {
+      const env = process.env.NODE_ENV;
+      process.env.NODE_ENV = 'production';
+      try {
+        const response = obsidian
+          .internalServerError('SELECT * FROM users failed', {
+            details: { sql: 'SELECT * FROM users' },
+            publicDetails: { retry: true },
+          })
+          .toResponse();
+
+        expect(await response.json()).toEqual({
+          ...identity,
+          status: 500,
+          message: 'Internal Server Error',
+          details: { retry: true },
+        });
+      } finally {
+        process.env.NODE_ENV = env;
+      }
+    });
+
+    it('should create a Problem Details Response', async () => {
+      const response = new HttpError(409, 'Email taken').toResponse('problem');
+
+      expect(response.headers.get('content-type')).toBe('application/problem+json');
+      expect(await response.json()).toMatchObject({ title: 'Conflict', detail: 'Email taken' });
+    });
+  });
+
+  describe('cause', () => {
+    it('should pass cause to the native Error cause', () => {
+      const cause = new Error('connection refused');
+      const error = new HttpError(503, 'Database unavailable', { cause });
+
+      expect(error.cause).toBe(cause);
+      expect(error.toJSON()).not.toHaveProperty('cause');
+    });
+
+    it('should set cause on runtimes without Error options (Node.js < 16.9)', () => {
+      const NativeError = global.Error;
+      class LegacyError extends NativeError {
+        constructor(message?: string) {
+          super(message);
+        }
+      }
+      global.Error = LegacyError as ErrorConstructor;
+
+      try {
+        jest.isolateModules(() => {
+          const { HttpError: LegacyHttpError } =
+            jest.requireActual<typeof import('../src/core/http-error')>('../src/core/http-error');
+          const cause = new NativeError('connection refused');
+          const error = new LegacyHttpError(503, 'Database unavailable', { cause });
+
+          expect(error.cause).toBe(cause);
+          expect(Object.keys(error)).not.toContain('cause');
+        });
+      } finally {
+        global.Error = NativeError;
+      }
+    });
+
+    it('should wrap a lower-level error with HttpError.wrap', () => {
+      const cause = new Error('connection refused');
+      const error = HttpError.wrap(cause, 503, 'Database unavailable', { code: 'DB_DOWN' });
+
+      expect(error).toBeInstanceOf(ServiceUnavailableError);
+      expect(error.status).toBe(503);
+      expect(error.message).toBe('Database unavailable');
+      expect(error.code).toBe('DB_DOWN');
+      expect(error.cause).toBe(cause);
+    });
+
+    it('should default HttpError.wrap to 500 with the default message', () => {
+      const error = HttpError.wrap('boom');
+
+      expect(error.status).toBe(500);
+      expect(error.message).toBe('Internal Server Error');
+      expect(error.cause).toBe('boom');
+    });
+  });
+
+  describe('serializeCauseChain', () => {
+    it('should serialize causes from closest to root', () => {
+      const root = Object.assign(new Error('ECONNREFUSED'), { code: 'ECONNREFUSED' });
+      const middle = new Error('query failed', { cause: root });
+      const error = HttpError.wrap(middle);
+
+      const chain = serializeCauseChain(error);
+
+      expect(chain).toHaveLength(2);
+      expect(chain[0]).toMatchObject({ name: 'Error', message: 'query failed' });
+      expect(chain[0].stack).toBeDefined();
+      expect(chain[1]).toMatchObject({ message: 'ECONNREFUSED', code: 'ECONNREFUSED' });
+    });
+
+    it('should serialize non-Error causes and stop on cycles', () => {
+      const a = new Error('a');
+      const b = new Error('b', { cause: a });
+      Object.assign(a, { cause: b });
+
+      expect(serializeCauseChain(new HttpError(500, 'x', { cause: 42 }))).toEqual([
+        { message: '42' },
+      ]);
+      expect(serializeCauseChain(b).map((cause) => cause.message)).toEqual(['a']);
+    });
+
+    it('should return an empty chain when there is no cause', () => {
+      expect(serializeCauseChain(new HttpError(404, 'Not found'))).toEqual([]);
+    });
+  });
+
+  describe('headers', () => {
+    it('should store headers without serializing them', () => {
+      const error = new HttpError(503, 'Maintenance', { headers: { 'Retry-After': '120' } });
+
+      expect(error.headers).toEqual({ 'Retry-After': '120' });
+      expect(error.toJSON()).toEqual({ ...identity, status: 503, message: 'Maintenance' });
+    });
+
+    it('should apply headers in toResponse', () => {
+      const response = new HttpError(405, 'Method Not Allowed', {
+        headers: { Allow: 'GET, HEAD' },
+      }).toResponse();
+
+      expect(response.headers.get('allow')).toBe('GET, HEAD');
+      expect(response.headers.get('content-type')).toBe('application/json');
+    });
+  });
+
+  describe('id and timestamp', () => {
+    it('should give every error a unique id and its creation time', () => {
+      const before = Date.now();
+      const first = obsidian.notFound();
+      const second = obsidian.notFound();
+
+      expect(first.id).toMatch(/^[\da-f]{8}-[\da-f]{4}-4[\da-f]{3}-[89ab][\da-f]{3}-[\da-f]{12}$/);
+      expect(first.id).not.toBe(second.id);
+      expect(Date.parse(first.timestamp)).toBeGreaterThanOrEqual(before);
+      expect(first.toJSON()).toMatchObject({ id: first.id, timestamp: first.timestamp });
+      expect(first.toProblemJSON()).toMatchObject({ id: first.id, timestamp: first.timestamp });
+    });
+
+    it('should keep id and timestamp when rebuilt from JSON', () => {
+      const original = obsidian.conflict('Taken');
+      const rebuilt = HttpError.fromJSON(JSON.parse(JSON.stringify(original)));
+      const fromProblem = HttpError.fromJSON(original.toProblemJSON());
+
+      expect(rebuilt.id).toBe(original.id);
+      expect(rebuilt.timestamp).toBe(original.timestamp);
+      expect(fromProblem.id).toBe(original.id);
+      expect(fromProblem.details).toBeUndefined();
+    });
+  });
+
+  describe('fromJSON', () => {
+    it('should rebuild an HttpError from toJSON output', () => {
+      const original = new HttpError(422, 'Validation failed', {
+        code: 'VALIDATION_ERROR',
+        details: { field: 'email' },
+      });
+      const error = HttpError.fromJSON(JSON.parse(JSON.stringify(original)));
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.toJSON()).toEqual(original.toJSON());
+    });
+
+    it('should rebuild status subclasses', () => {
+      const error = HttpError.fromJSON(obsidian.notFound().toJSON());
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.name).toBe('NotFoundError');
+      expect(HttpError.fromJSON({ status: 403, title: 'Forbidden' }).name).toBe('ForbiddenError');
+      expect(HttpError.fromJSON({ status: 302, message: 'Found' }).name).toBe('HttpError');
+    });
+
+    it('should rebuild an HttpError from Problem Details', () => {
+      const error = HttpError.fromJSON({
+        type: 'https://example.com/problems/out-of-credit',
+        title: 'Forbidden',
+        status: 403,
+        detail: 'Your balance is 30, but that costs 50.',
+        instance: '/account/12345/msgs/abc',
+        code: 'OUT_OF_CREDIT',
+        balance: 30,
+      });
+
+      expect(error.status).toBe(403);
+      expect(error.message).toBe('Your balance is 30, but that costs 50.');
+      expect(error.code).toBe('OUT_OF_CREDIT');
+      expect(error.details).toEqual({ balance: 30 });
+      expect(error.type).toBe('https://example.com/problems/out-of-credit');
+      expect(error.instance).toBe('/account/12345/msgs/abc');
+    });
+
+    it('should round-trip toProblemJSON output', () => {
+      const original = new HttpError(404, 'User not found', {
+        code: 'USER_NOT_FOUND',
+        details: { userId: '123' },
+      });
+      const error = HttpError.fromJSON(original.toProblemJSON());
+
+      expect(error.toProblemJSON()).toEqual(original.toProblemJSON());
+    });
+
+    it('should fall back to title when detail is missing', () => {
+      expect(HttpError.fromJSON({ status: 404, title: 'Not Found' }).message).toBe('Not Found');
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => HttpError.fromJSON('oops')).toThrow(TypeError);
+      expect(() => HttpError.fromJSON({ status: '404', message: 'x' })).toThrow(TypeError);
+      expect(() => HttpError.fromJSON({ status: 99, message: 'x' })).toThrow(TypeError);
+      expect(() => HttpError.fromJSON({ status: 404 })).toThrow(TypeError);
+      expect(() => HttpError.fromJSON({ status: 404, message: 'x', code: 1 })).toThrow(TypeError);
+    });
+  });
+
   describe('getDefaultMessage', () => {
     it('should return default message for known status codes', () => {
       expect(HttpError.getDefaultMessage(404)).toBe('Not Found');
@@ -169,6 +463,49 @@ describe('HttpError', () => {
   });
 });
 
+describe('isHttpError', () => {
+  function loadForeignCopy(): typeof import('../src') {
+    let copy: typeof import('../src') | undefined;
+    jest.isolateModules(() => {
+      copy = jest.requireActual<typeof import('../src')>('../src');
+    });
+    return copy as typeof import('../src');
+  }
+
+  it('should recognize HttpError instances and subclasses', () => {
+    expect(isHttpError(new HttpError(400, 'Bad'))).toBe(true);
+    expect(isHttpError(obsidian.notFound())).toBe(true);
+  });
+
+  it('should reject other values', () => {
+    expect(isHttpError(new Error('boom'))).toBe(false);
+    expect(isHttpError({ status: 404, message: 'Not found' })).toBe(false);
+    expect(isHttpError(null)).toBe(false);
+    expect(isHttpError('error')).toBe(false);
+  });
+
+  it('should recognize errors from another copy of the package', () => {
+    const foreign = loadForeignCopy();
+    const error = foreign.obsidian.notFound('User not found');
+
+    expect(foreign.HttpError).not.toBe(HttpError);
+    expect(error instanceof HttpError).toBe(false);
+    expect(isHttpError(error)).toBe(true);
+  });
+
+  it('should let error handlers handle errors from another copy', () => {
+    const foreign = loadForeignCopy();
+    const res = { status: jest.fn(), set: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    res.set.mockReturnValue(res);
+
+    errorHandler()(foreign.obsidian.conflict(), {} as never, res as never, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith({ ...handlerIdentity, status: 409, message: 'Conflict' });
+  });
+});
+
 describe('Obsidian Factory Functions', () => {
   describe('Basic factory functionality', () => {
     it('should create HttpError instances', () => {
@@ -296,6 +633,209 @@ describe('Obsidian Factory Functions', () => {
     });
   });
 
+  describe('Status-specific options', () => {
+    it('tooManyRequests - retryAfter seconds', () => {
+      const error = obsidian.tooManyRequests({ retryAfter: 59.2 });
+
+      expect(error.status).toBe(429);
+      expect(error.message).toBe('Too Many Requests');
+      expect(error.headers).toEqual({ 'Retry-After': '60' });
+      expect(error.details).toEqual({ retryAfter: 60 });
+    });
+
+    it('serviceUnavailable - retryAfter date', () => {
+      const date = new Date('2030-01-01T00:00:00Z');
+      const error = obsidian.serviceUnavailable('Maintenance', { retryAfter: date });
+
+      expect(error.message).toBe('Maintenance');
+      expect(error.headers).toEqual({ 'Retry-After': 'Tue, 01 Jan 2030 00:00:00 GMT' });
+      expect(error.details).toEqual({ retryAfter: '2030-01-01T00:00:00.000Z' });
+    });
+
+    it('methodNotAllowed - allow', () => {
+      const error = obsidian.methodNotAllowed({ allow: ['get', 'HEAD'] });
+
+      expect(error.headers).toEqual({ Allow: 'GET, HEAD' });
+      expect(error.details).toEqual({ allow: ['GET', 'HEAD'] });
+    });
+
+    it('unauthorized - scheme, realm and error', () => {
+      const error = obsidian.unauthorized('Token expired', {
+        code: 'TOKEN_EXPIRED',
+        realm: 'api',
+        error: 'invalid_token',
+      });
+
+      expect(error.code).toBe('TOKEN_EXPIRED');
+      expect(error.headers).toEqual({
+        'WWW-Authenticate': 'Bearer realm="api", error="invalid_token"',
+      });
+      expect(error.details).toEqual({ scheme: 'Bearer', realm: 'api', error: 'invalid_token' });
+      expect(error).not.toHaveProperty('realm');
+    });
+
+    it('unauthorized - scheme only', () => {
+      const error = obsidian.unauthorized({ scheme: 'Basic' });
+
+      expect(error.headers).toEqual({ 'WWW-Authenticate': 'Basic' });
+    });
+
+    it('payloadTooLarge - limit', () => {
+      const error = obsidian.payloadTooLarge({ limit: 1048576 });
+
+      expect(error.headers).toBeUndefined();
+      expect(error.details).toEqual({ limit: 1048576 });
+    });
+
+    it('should merge with explicit details and let explicit headers win', () => {
+      const error = obsidian.tooManyRequests('Slow down', {
+        retryAfter: 30,
+        details: { bucket: 'api' },
+        headers: { 'Retry-After': '45', 'X-RateLimit-Limit': '100' },
+      });
+
+      expect(error.details).toEqual({ retryAfter: 30, bucket: 'api' });
+      expect(error.headers).toEqual({ 'Retry-After': '45', 'X-RateLimit-Limit': '100' });
+    });
+
+    it('should keep non-object details unchanged', () => {
+      const error = obsidian.methodNotAllowed(undefined, { allow: ['GET'], details: ['x'] });
+
+      expect(error.details).toEqual(['x']);
+      expect(error.headers).toEqual({ Allow: 'GET' });
+    });
+  });
+
+  describe('Generic typing', () => {
+    it('should type status as the factory status literal', () => {
+      const status: 404 = obsidian.notFound().status;
+      // @ts-expect-error - notFound() is HttpError<404>
+      const wrong: 500 = obsidian.notFound().status;
+
+      expect(status).toBe(404);
+      expect(wrong).toBe(404);
+    });
+
+    it('should infer code and details types from options', () => {
+      const error = obsidian.badRequest('Invalid input', {
+        code: 'INVALID_EMAIL',
+        details: { field: 'email' },
+      });
+      const code: 'INVALID_EMAIL' | undefined = error.code;
+      const field: string | undefined = error.details?.field;
+
+      expect(code).toBe('INVALID_EMAIL');
+      expect(field).toBe('email');
+      expect(error.toJSON().details).toEqual({ field: 'email' });
+    });
+
+    it('should infer code and details types for status-specific factories', () => {
+      const limited = obsidian.tooManyRequests({
+        retryAfter: 30,
+        code: 'RATE_LIMITED',
+        details: { bucket: 'api' },
+      });
+      const denied = obsidian.unauthorized('Token expired', {
+        scheme: 'Bearer',
+        code: 'TOKEN_EXPIRED',
+      });
+      const code: 'RATE_LIMITED' | undefined = limited.code;
+      const bucket: string | undefined = limited.details?.bucket;
+      const deniedCode: 'TOKEN_EXPIRED' | undefined = denied.code;
+      // @ts-expect-error - code is 'TOKEN_EXPIRED'
+      const wrong: 'OTHER' | undefined = denied.code;
+
+      expect(code).toBe('RATE_LIMITED');
+      expect(bucket).toBe('api');
+      expect(deniedCode).toBe('TOKEN_EXPIRED');
+      expect(wrong).toBe('TOKEN_EXPIRED');
+    });
+
+    it('should narrow details when checking status', () => {
+      type AppError =
+        | HttpError<404, 'USER_NOT_FOUND', { userId: string }>
+        | HttpError<422, 'VALIDATION_ERROR', { fields: string[] }>;
+
+      const validate = (): AppError =>
+        obsidian.unprocessableEntity('Validation failed', {
+          code: 'VALIDATION_ERROR',
+          details: { fields: ['email'] },
+        });
+      const error = validate();
+
+      if (error.status === 422) {
+        const fields: string[] | undefined = error.details?.fields;
+        expect(fields).toEqual(['email']);
+      } else {
+        const userId: string | undefined = error.details?.userId;
+        expect(userId).toBeUndefined();
+      }
+    });
+
+    it('should type catalog errors with their status and code', () => {
+      const errors = defineErrors({ USER_NOT_FOUND: { status: 404 } });
+      const error = errors.USER_NOT_FOUND();
+      const status: 404 = error.status;
+      const code: 'USER_NOT_FOUND' | undefined = error.code;
+
+      expect(status).toBe(404);
+      expect(code).toBe('USER_NOT_FOUND');
+    });
+  });
+
+  describe('Status subclasses', () => {
+    it('should return status-specific subclasses from factories', () => {
+      const error = obsidian.notFound('User not found');
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('NotFoundError');
+      expect(error.stack).toContain('NotFoundError: User not found');
+    });
+
+    it('should return subclasses from typed factories', () => {
+      const error = obsidian.tooManyRequests({ retryAfter: 10 });
+
+      expect(error).toBeInstanceOf(TooManyRequestsError);
+      expect(error.headers).toEqual({ 'Retry-After': '10' });
+    });
+
+    it('should distinguish statuses with instanceof', () => {
+      const error: unknown = obsidian.unauthorized();
+
+      expect(error instanceof UnauthorizedError).toBe(true);
+      expect(error instanceof NotFoundError).toBe(false);
+    });
+
+    it('should be constructible directly with default messages', () => {
+      const error = new InternalServerError(undefined, { code: 'BOOM' });
+
+      expect(error.status).toBe(500);
+      expect(error.message).toBe('Internal Server Error');
+      expect(error.name).toBe('InternalServerError');
+      expect(error.toJSON()).toEqual({
+        ...identity,
+        status: 500,
+        message: 'Internal Server Error',
+        code: 'BOOM',
+      });
+    });
+
+    it('should keep plain HttpError for non-error statuses', () => {
+      const error = obsidian.movedPermanently();
+
+      expect(error.constructor).toBe(HttpError);
+      expect(error.name).toBe('HttpError');
+    });
+
+    it('should use subclasses for catalog errors', () => {
+      const errors = defineErrors({ USER_NOT_FOUND: { status: 404 } });
+
+      expect(errors.USER_NOT_FOUND()).toBeInstanceOf(NotFoundError);
+    });
+  });
+
   describe('Serialization', () => {
     it('should serialize correctly to JSON', () => {
       const error = obsidian.notFound('User not found', {
@@ -306,6 +846,7 @@ describe('Obsidian Factory Functions', () => {
       const json = error.toJSON();
 
       expect(json).toEqual({
+        ...identity,
         status: 404,
         message: 'User not found',
         code: 'USER_NOT_FOUND',
@@ -356,4 +897,436 @@ describe('Obsidian Factory Functions', () => {
       }
     });
   });
-});
\ No newline at end of file
+});
+
+describe('defineErrors', () => {
+  const errors = defineErrors({
+    USER_NOT_FOUND: { status: 404, message: 'User not found' },
+    EMAIL_TAKEN: { status: 409, type: 'https://example.com/problems/email-taken' },
+  });
+
+  it('should create HttpErrors with the catalog status, message and code', () => {
+    const error = errors.USER_NOT_FOUND({ details: { userId: '123' } });
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.toJSON()).toEqual({
+      ...identity,
+      status: 404,
+      message: 'User not found',
+      code: 'USER_NOT_FOUND',
+      details: { userId: '123' },
+    });
+  });
+
+  it('should accept a custom message and fall back to the status message', () => {
+    expect(errors.USER_NOT_FOUND('No such user').message).toBe('No such user');
+    expect(errors.EMAIL_TAKEN().message).toBe('Conflict');
+  });
+
+  it('should apply the catalog problem type', () => {
+    expect(errors.EMAIL_TAKEN().toProblemJSON().type).toBe(
+      'https://example.com/problems/email-taken'
+    );
+  });
+
+  it('should expose code and status on each factory', () => {
+    expect(errors.USER_NOT_FOUND.code).toBe('USER_NOT_FOUND');
+    expect(errors.USER_NOT_FOUND.status).toBe(404);
+  });
+
+  it('should return a frozen catalog', () => {
+    expect(Object.isFrozen(errors)).toBe(true);
+  });
+});
+
+describe('expose', () => {
+  it('should default to true for 4xx and false for 5xx', () => {
+    expect(obsidian.notFound().expose).toBe(true);
+    expect(obsidian.internalServerError().expose).toBe(false);
+    expect(new HttpError(502, 'Upstream down').expose).toBe(false);
+  });
+
+  it('should accept an explicit expose and publicDetails', () => {
+    const error = obsidian.badGateway('Payment provider down', {
+      expose: true,
+      details: { provider: 'acme', response: '<html>' },
+      publicDetails: { provider: 'acme' },
+    });
+
+    expect(error.expose).toBe(true);
+    expect(error.publicDetails).toEqual({ provider: 'acme' });
+    expect(error.toJSON().details).toEqual({ provider: 'acme', response: '<html>' });
+  });
+});
+
+describe('normalizeError', () => {
+  function systemError(code: string): Error {
+    return Object.assign(new Error(`connect ${code}`), { code });
+  }
+
+  it('should return HttpErrors unchanged', () => {
+    const error = obsidian.notFound('Missing');
+
+    expect(normalizeError(error)).toBe(error);
+  });
+
+  it('should map body-parser errors to their status', () => {
+    const tooLarge = Object.assign(new Error('request entity too large'), {
+      type: 'entity.too.large',
+      status: 413,
+    });
+    const parseFailed = Object.assign(new SyntaxError('Unexpected token } in JSON'), {
+      type: 'entity.parse.failed',
+      status: 400,
+    });
+
+    expect(normalizeError(tooLarge).toJSON()).toEqual({
+      ...identity,
+      status: 413,
+      message: 'request entity too large',
+      code: 'ENTITY_TOO_LARGE',
+    });
+    expect(normalizeError(parseFailed).status).toBe(400);
+    expect(normalizeError(parseFailed).code).toBe('ENTITY_PARSE_FAILED');
+  });
+
+  it('should not match inherited object keys as error types or codes', () => {
+    const typed = Object.assign(new Error('weird'), { type: 'constructor' });
+
+    expect(normalizeError(typed).status).toBe(500);
+    expect(normalizeError(systemError('toString')).status).toBe(500);
+  });
+
+  it('should map connection errors to 502 and timeouts to 504', () => {
+    const refused = normalizeError(systemError('ECONNREFUSED'));
+
+    expect(refused).toBeInstanceOf(BadGatewayError);
+    expect(refused.status).toBe(502);
+    expect(refused.message).toBe('Bad Gateway');
+    expect(refused.code).toBe('ECONNREFUSED');
+    expect(normalizeError(systemError('ETIMEDOUT')).status).toBe(504);
+  });
+
+  it('should map TimeoutError and AbortError', () => {
+    const timeout = Object.assign(new Error('The operation timed out'), { name: 'TimeoutError' });
+    const abort = Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+
+    expect(normalizeError(timeout).status).toBe(504);
+    expect(normalizeError(abort).status).toBe(503);
+  });
+
+  it('should map request body JSON syntax errors to 400', () => {
+    let caught: unknown;
+    try {
+      JSON.parse('{');
+    } catch (err) {
+      caught = err;
+    }
+
+    expect(normalizeError(caught).status).toBe(500);
+
+    const bodyError = Object.assign(caught as SyntaxError, { body: '{' });
+    const error = normalizeError(bodyError);
+    expect(error.status).toBe(400);
+    expect(error.code).toBe('INVALID_JSON');
+    expect(error.cause).toBe(bodyError);
+  });
+
+  it('should keep status and statusCode from http-errors style objects', () => {
+    const forbidden = Object.assign(new Error('Nope'), { status: 403, expose: true });
+    const upstream = { statusCode: 503, message: 'pool exhausted' };
+
+    expect(normalizeError(forbidden).toJSON()).toEqual({
+      ...identity,
+      status: 403,
+      message: 'Nope',
+    });
+    expect(normalizeError(forbidden).expose).toBe(true);
+    expect(normalizeError(upstream).toJSON()).toEqual({
+      ...identity,
+      status: 503,
+      message: 'pool exhausted',
+    });
+    expect(normalizeError(upstream).expose).toBe(false);
+    expect(normalizeError({ status: 500, message: 'Safe', expose: true }).expose).toBe(true);
+  });
+
+  it('should wrap anything else as a 500 with the value as cause', () => {
+    const error = normalizeError('boom');
+
+    expect(error.status).toBe(500);
+    expect(error.message).toBe('Internal Server Error');
+    expect(error.cause).toBe('boom');
+  });
+});
+
+describe('validateOrThrow', () => {
+  // Minimal Standard Schema validator: `{ email: string }`
+  const userSchema: StandardSchemaV1<unknown, { email: string }> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => {
+        const email = (value as { email?: unknown } | undefined)?.email;
+        if (typeof email === 'string' && email.includes('@')) {
+          return { value: { email: email.toLowerCase() } };
+        }
+        const issue: StandardSchemaIssue & { code: string } = {
+          message: 'Invalid email',
+          path: [{ key: 'email' }],
+          code: 'invalid_string',
+        };
+        return { issues: [issue] };
+      },
+    },
+  };
+
+  it('should return the validated value', async () => {
+    await expect(validateOrThrow(userSchema, { email: 'A@B.CO' })).resolves.toEqual({
+      email: 'a@b.co',
+    });
+  });
+
+  it('should throw a 422 with normalized issues', async () => {
+    const error = await validateOrThrow(userSchema, { email: 'nope' }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(UnprocessableEntityError);
+    expect((error as HttpError).toJSON()).toEqual({
+      ...identity,
+      status: 422,
+      message: 'Validation failed',
+      code: 'VALIDATION_FAILED',
+      details: { issues: [{ path: ['email'], message: 'Invalid email', code: 'invalid_string' }] },
+    });
+  });
+
+  it('should throw a 400 with custom message and code', async () => {
+    const error = await validateOrThrow(
+      userSchema,
+      {},
+      {
+        status: 400,
+        message: 'Bad user',
+        code: 'INVALID_USER',
+      }
+    ).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(BadRequestError);
+    expect((error as HttpError).message).toBe('Bad user');
+    expect((error as HttpError).code).toBe('INVALID_USER');
+  });
+
+  it('should support async validators and Valibot-style issue types', async () => {
+    const schema: StandardSchemaV1<unknown, number> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) =>
+          Promise.resolve(
+            typeof value === 'number'
+              ? { value }
+              : { issues: [{ message: 'Expected number', type: 'number' } as StandardSchemaIssue] }
+          ),
+      },
+    };
+
+    await expect(validateOrThrow(schema, 1)).resolves.toBe(1);
+    await expect(validateOrThrow(schema, 'x')).rejects.toMatchObject({
+      details: { issues: [{ path: [], message: 'Expected number', code: 'number' }] },
+    });
+  });
+});
+
+describe('localized messages', () => {
+  beforeAll(() => {
+    registerLocale('de', {
+      messages: { USER_NOT_FOUND: 'Benutzer {id} nicht gefunden' },
+      statusMessages: { 404: 'Nicht gefunden', 500: 'Interner Serverfehler' },
+    });
+    registerLocale('fr-CA', { statusMessages: { 404: 'Introuvable' } });
+  });
+
+  it('should interpolate params into the message and keep them on the error', () => {
+    const error = obsidian.notFound('User {id} not found', {
+      code: 'USER_NOT_FOUND',
+      params: { id: 42 },
+    });
+
+    expect(error.message).toBe('User 42 not found');
+    expect(error.params).toEqual({ id: 42 });
+  });
+
+  it('should leave placeholders without params untouched', () => {
+    expect(new HttpError(400, 'Missing {field}', { params: {} }).message).toBe('Missing {field}');
+  });
+
+  it('should interpolate catalog message templates', () => {
+    const errors = defineErrors({ ORDER_LOCKED: { status: 423, message: 'Order {id} is locked' } });
+
+    expect(errors.ORDER_LOCKED({ params: { id: 'A1' } }).message).toBe('Order A1 is locked');
+  });
+
+  it('should localize messages by code and default messages by status', () => {
+    const userError = obsidian.notFound('User {id} not found', {
+      code: 'USER_NOT_FOUND',
+      params: { id: 42 },
+    });
+
+    expect(localizeMessage(userError, 'de')).toBe('Benutzer 42 nicht gefunden');
+    expect(localizeMessage(obsidian.notFound(), 'de')).toBe('Nicht gefunden');
+    expect(localizeMessage(obsidian.notFound('Custom'), 'de')).toBe('Custom');
+    expect(localizeMessage(obsidian.notFound(), 'ja')).toBe('Not Found');
+  });
+
+  it('should translate reason phrases with getDefaultMessage', () => {
+    expect(HttpError.getDefaultMessage(404, 'de')).toBe('Nicht gefunden');
+    expect(HttpError.getDefaultMessage(409, 'de')).toBe('Conflict');
+    expect(HttpError.getDefaultMessage(404)).toBe('Not Found');
+  });
+
+  it('should negotiate registered locales from Accept-Language', () => {
+    expect(negotiateLocale('de-AT,de;q=0.9,en;q=0.8')).toBe('de');
+    expect(negotiateLocale('en;q=0.5, fr-ca')).toBe('fr-CA');
+    expect(negotiateLocale('ja, *;q=0.1')).toBeUndefined();
+    expect(negotiateLocale('de;q=0')).toBeUndefined();
+    expect(negotiateLocale(undefined)).toBeUndefined();
+  });
+});
+
+describe('request IDs', () => {
+  it('should generate UUIDs without Web Crypto', () => {
+    const { crypto } = globalThis;
+    Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+    try {
+      expect(generateId()).toMatch(
+        /^[\da-f]{8}-[\da-f]{4}-4[\da-f]{3}-[89ab][\da-f]{3}-[\da-f]{12}$/
+      );
+    } finally {
+      Object.defineProperty(globalThis, 'crypto', { value: crypto, configurable: true });
+    }
+  });
+
+  it('should prefer a valid X-Request-Id', () => {
+    expect(resolveRequestId(' abc-123 ', undefined)).toBe('abc-123');
+  });
+
+  it('should use the traceparent trace ID otherwise', () => {
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    expect(resolveRequestId(undefined, traceparent)).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(resolveRequestId('bad id <script>', traceparent)).toBe(
+      '4bf92f3577b34da6a3ce929d0e0e4736'
+    );
+  });
+
+  it('should generate an ID for missing or invalid headers', () => {
+    const invalidTrace = '00-00000000000000000000000000000000-00f067aa0ba902b7-01';
+
+    expect(resolveRequestId('x'.repeat(201), invalidTrace)).toMatch(/^[\da-f-]{36}$/);
+    expect(resolveRequestId(undefined, undefined)).toMatch(/^[\da-f-]{36}$/);
+  });
+});
+
+describe('createErrorMetrics', () => {
+  it('should collect counters with a custom name and escaped labels', () => {
+    const metrics = createErrorMetrics({ name: 'api_errors_total', help: 'API errors' });
+    metrics.record(obsidian.badRequest(undefined, { code: 'BAD "INPUT"' }), '/a\\b');
+    metrics.record(Object.assign(new Error('too big'), { type: 'entity.too.large' }));
+
+    expect(metrics.collect()).toBe(
+      '# HELP api_errors_total API errors\n' +
+        '# TYPE api_errors_total counter\n' +
+        'api_errors_total{status="400",status_class="4xx",code="BAD \\"INPUT\\"",route="/a\\\\b"} 1\n' +
+        'api_errors_total{status="413",status_class="4xx",code="ENTITY_TOO_LARGE",route=""} 1\n'
+    );
+  });
+
+  it('should reset counters', () => {
+    const metrics = createErrorMetrics();
+    metrics.record(obsidian.notFound());
+    metrics.reset();
+
+    expect(metrics.samples()).toEqual([]);
+    expect(metrics.collect()).not.toContain('http_errors_total{');
+  });
+});
+
+describe('status metadata', () => {
+  it('should describe every status code', () => {
+    for (const status of Object.values(HttpStatusCode)) {
+      expect(HttpStatusInfo[status]).toMatchObject({
+        status,
+        message: HttpError.getDefaultMessage(status),
+        class: statusClass(status),
+      });
+    }
+  });
+
+  it('should provide RFC, retry, cache and body rules', () => {
+    expect(HttpStatusInfo[429]).toEqual({
+      status: 429,
+      key: 'TOO_MANY_REQUESTS',
+      message: 'Too Many Requests',
+      class: '4xx',
+      rfc: 'RFC 6585',
+      retryable: true,
+      cacheable: false,
+      bodyAllowed: true,
+    });
+    expect(HttpStatusInfo[404]).toMatchObject({ rfc: 'RFC 9110', cacheable: true });
+    expect(HttpStatusInfo[204]?.bodyAllowed).toBe(false);
+    expect(HttpStatusInfo[304]?.bodyAllowed).toBe(false);
+    expect(HttpStatusInfo[100]?.bodyAllowed).toBe(false);
+  });
+
+  it('should classify status codes', () => {
+    expect(statusClass(204)).toBe('2xx');
+    expect(statusClass(503)).toBe('5xx');
+    expect(statusClass(600)).toBeUndefined();
+    expect(isClientError(404)).toBe(true);
+    expect(isClientError(500)).toBe(false);
+    expect(isServerError(599)).toBe(true);
+    expect(isServerError(499)).toBe(false);
+  });
+
+  it('should flag retryable status codes', () => {
+    expect([408, 425, 429, 500, 502, 503, 504].every(isRetryable)).toBe(true);
+    expect(isRetryable(400)).toBe(false);
+    expect(isRetryable(501)).toBe(false);
+    expect(isRetryable(999)).toBe(false);
+  });
+
+  it('should look up the key of a status code', () => {
+    expect(statusKey(404)).toBe('NOT_FOUND');
+    expect(statusKey(299)).toBeUndefined();
+  });
+});
+
+describe('obsidian.fromStatus', () => {
+  it('should return the status subclass for 4xx/5xx codes', () => {
+    const error = obsidian.fromStatus(404, 'User not found', { code: 'USER_NOT_FOUND' });
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.status).toBe(404);
+    expect(error.message).toBe('User not found');
+    expect(error.code).toBe('USER_NOT_FOUND');
+  });
+
+  it('should default the message to the reason phrase', () => {
+    expect(obsidian.fromStatus(503).message).toBe('Service Unavailable');
+  });
+
+  it('should reject invalid status codes', () => {
+    expect(() => obsidian.fromStatus(999)).toThrow(RangeError);
+    expect(() => obsidian.fromStatus(1.5)).toThrow(RangeError);
+    expect(() => obsidian.fromStatus(99)).toThrow(RangeError);
+  });
+
+  it('should return a plain HttpError for other codes', () => {
+    const error = obsidian.fromStatus(302);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.name).toBe('HttpError');
+    expect(error.message).toBe('Found');
+  });
+});